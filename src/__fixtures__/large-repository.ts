@@ -0,0 +1,44 @@
+import path from 'node:path';
+
+import type { WriteFile } from './temporary-directory.js';
+
+export interface LargeRepositoryOptions {
+  /** Number of module directories below `src` */
+  directories: number;
+  /** Number of files following the convention in each directory */
+  filesPerDirectory: number;
+  /** Number of files to rename in each directory, each imported by the first file */
+  renamedPerDirectory: number;
+}
+
+/**
+ * Generate a repository of many small modules importing each other, of which only a few
+ * files need renaming, as in a large monorepo adopting a naming convention
+ */
+export function createLargeRepository(writeFile: WriteFile, options: LargeRepositoryOptions): void {
+  writeFile(path.join('src', 'shared', 'logger.ts'), 'export const log = console.log;\n');
+
+  for (let directory = 0; directory < options.directories; directory++) {
+    const directoryPath = path.join('src', `module-${directory}`);
+    const renamedNames = Array.from(
+      { length: options.renamedPerDirectory },
+      (_, index) => `UserCard${directory}x${index}`
+    );
+
+    for (const name of renamedNames) {
+      writeFile(path.join(directoryPath, `${name}.tsx`), `export const ${name} = () => null;\n`);
+    }
+
+    for (let file = 0; file < options.filesPerDirectory; file++) {
+      const imports = [
+        "import { log } from '../shared/logger';",
+        ...(file > 0 ? [`import { value${file - 1} } from './file-${file - 1}';`] : []),
+        ...(file === 0 ? renamedNames.map((name) => `import { ${name} } from './${name}';`) : []),
+      ];
+      writeFile(
+        path.join(directoryPath, `file-${file}.ts`),
+        [...imports, '', `export const value${file} = ${file};`, `log(value${file});`, ''].join('\n')
+      );
+    }
+  }
+}
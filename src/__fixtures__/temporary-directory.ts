@@ -0,0 +1,37 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+/**
+ * Write a file below a temporary directory, creating its parent directories
+ */
+export type WriteFile = (relativePath: string, content?: string) => void;
+
+export interface TemporaryDirectory {
+  /** Real path of the directory, so it compares equal to paths resolved by git or `process.cwd()` */
+  root: string;
+  writeFile: WriteFile;
+}
+
+/**
+ * Create an empty directory for a test to write its files to
+ */
+export function createTemporaryDirectory(): TemporaryDirectory {
+  const root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'baptist-')));
+
+  return {
+    root,
+    writeFile: (relativePath, content = '') => {
+      const filePath = path.join(root, relativePath);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content, 'utf8');
+    },
+  };
+}
+
+/**
+ * Remove a directory created by `createTemporaryDirectory` with everything in it
+ */
+export function removeTemporaryDirectory(root: string): void {
+  fs.rmSync(root, { recursive: true, force: true });
+}
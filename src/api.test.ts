@@ -0,0 +1,191 @@
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import {
+  type WriteFile,
+  createTemporaryDirectory,
+  removeTemporaryDirectory,
+} from './__fixtures__/temporary-directory.js';
+import { ConflictError, type PipelineEvent, ReviewCancelledError, apply, check, plan } from './api.js';
+import type { FileSystemItem } from './types/index.js';
+import { RollbackError } from './utils/transaction.js';
+
+const initialDirectory = process.cwd();
+let root: string;
+let writeFile: WriteFile;
+
+function git(...arguments_: string[]): string {
+  return execFileSync('git', arguments_, { cwd: root, encoding: 'utf8', stdio: 'pipe' }).trim();
+}
+
+async function cancelReview(): Promise<FileSystemItem[] | undefined> {
+  return undefined;
+}
+
+beforeEach(() => {
+  ({ root, writeFile } = createTemporaryDirectory());
+  writeFile('src/UserCard.tsx', 'export default 1;');
+  writeFile('src/index.ts', "import UserCard from './UserCard';\n");
+
+  // Journals are written to the working directory
+  process.chdir(root);
+});
+
+afterEach(() => {
+  process.chdir(initialDirectory);
+  removeTemporaryDirectory(root);
+});
+
+describe('plan', () => {
+  test('plans moves and import updates without touching any files', async () => {
+    const renamePlan = await plan({ directories: ['src'], namingStrategy: 'snake' });
+
+    expect(renamePlan.moveOperations).toEqual([{ from: 'src/UserCard.tsx', to: 'src/user_card.tsx' }]);
+    expect(renamePlan.importUpdates.map((update) => update.updatedContent)).toEqual([
+      "import UserCard from './user_card';\n",
+    ]);
+    expect(fs.existsSync(path.join(root, 'src', 'UserCard.tsx'))).toBe(true);
+  });
+
+  test('throws a ConflictError for unresolved conflicts', async () => {
+    writeFile('src/user-card.tsx');
+
+    const events: PipelineEvent[] = [];
+
+    await expect(plan({ directories: ['src'] }, { onEvent: (event) => events.push(event) })).rejects.toBeInstanceOf(
+      ConflictError
+    );
+    expect(events.at(-1)).toMatchObject({ type: 'error', message: 'Found 1 conflicting renames' });
+  });
+
+  test('throws when the review is cancelled', async () => {
+    await expect(plan({ directories: ['src'] }, { review: cancelReview })).rejects.toBeInstanceOf(ReviewCancelledError);
+  });
+});
+
+describe('apply', () => {
+  test('renames files, updates imports and writes a journal', async () => {
+    const events: PipelineEvent[] = [];
+    const result = await apply({ directories: ['src'] }, { onEvent: (event) => events.push(event) });
+
+    expect(fs.readdirSync(path.join(root, 'src')).sort()).toEqual(['index.ts', 'user-card.tsx']);
+    expect(fs.readFileSync(path.join(root, 'src', 'index.ts'), 'utf8')).toBe("import UserCard from './user-card';\n");
+    expect(result.updatedFiles).toEqual(['src/index.ts']);
+    expect(result.journalPath && fs.existsSync(result.journalPath)).toBe(true);
+    expect(events.flatMap((event) => (event.type === 'step' ? [event.step] : []))).toEqual([
+      'checking-git',
+      'scanning',
+      'planning',
+      'renaming',
+      'updating-imports',
+    ]);
+    expect(events.filter((event) => event.type !== 'step')).toEqual([
+      { type: 'planned', items: 1, files: 1 },
+      { type: 'item-renamed', from: 'src/UserCard.tsx', to: 'src/user-card.tsx', processed: 1, total: 1 },
+      { type: 'file-updated', filePath: 'src/index.ts', processed: 1, total: 1 },
+      { type: 'completed', dryRun: false, renamedItems: 1, updatedFiles: 1, journalPath: result.journalPath },
+    ]);
+  });
+
+  test('commits the moves and the updated imports separately', async () => {
+    git('init', '--quiet');
+    git('config', 'user.name', 'Baptist');
+    git('config', 'user.email', 'baptist@example.com');
+    git('add', '.');
+    git('commit', '--quiet', '--message', 'Initial commit');
+
+    const result = await apply(
+      { directories: ['src'] },
+      { commit: { content: 'Update {count} imports for {case} names' } }
+    );
+
+    expect(result.commits).toHaveLength(2);
+    expect(git('log', '--format=%s', '-2')).toBe(
+      'Update 1 imports for kebab names\nRename 1 files and directories to kebab case'
+    );
+    expect(git('show', '--name-status', '--format=', 'HEAD~1')).toBe('R100\tsrc/UserCard.tsx\tsrc/user-card.tsx');
+    expect(git('show', '--name-status', '--format=', 'HEAD')).toBe('M\tsrc/index.ts');
+  });
+
+  test('moves names containing shell syntax without running it', async () => {
+    writeFile('src/Evil$(touch pwned)`touch pwned2`".ts');
+    git('init', '--quiet');
+    git('add', '.');
+
+    await apply({ directories: ['src'] });
+
+    expect(fs.readdirSync(path.join(root, 'src')).sort()).toEqual([
+      'evil$(touch pwned)`touch pwned2`".ts',
+      'index.ts',
+      'user-card.tsx',
+    ]);
+    expect(fs.readdirSync(root).filter((name) => name.startsWith('pwned'))).toEqual([]);
+  });
+
+  test('renames new untracked files inside a git repository', async () => {
+    git('init', '--quiet');
+    git('add', '.');
+    writeFile('src/NewThing.ts', "import UserCard from './UserCard';\n");
+
+    await apply({ directories: ['src'], files: ['src/NewThing.ts'], force: true });
+
+    expect(fs.readdirSync(path.join(root, 'src')).sort()).toEqual(['UserCard.tsx', 'index.ts', 'new-thing.ts']);
+    expect(git('status', '--porcelain', '--', 'src/new-thing.ts')).toBe('?? src/new-thing.ts');
+  });
+
+  test('renames untracked files changed since a ref', async () => {
+    git('init', '--quiet');
+    git('config', 'user.name', 'Baptist');
+    git('config', 'user.email', 'baptist@example.com');
+    git('add', '.');
+    git('commit', '--quiet', '--message', 'Initial commit');
+    writeFile('src/NewThing.ts');
+
+    const result = await apply({ directories: ['src'], since: 'HEAD', force: true });
+
+    expect(result.renamedItems.map((item) => item.newPath)).toEqual(['src/new-thing.ts']);
+    expect(fs.readdirSync(path.join(root, 'src')).sort()).toEqual(['UserCard.tsx', 'index.ts', 'new-thing.ts']);
+  });
+
+  test('rolls back the moves and rewritten files when a write fails', async () => {
+    writeFile('src/main.ts', "import UserCard from './UserCard';\n");
+    const { writeFile: write } = fs.promises;
+    const writeSpy = vi.spyOn(fs.promises, 'writeFile').mockImplementation(async (file, ...rest) => {
+      if (String(file).endsWith('main.ts')) {
+        throw new Error('Disk full');
+      }
+      return write(file, ...rest);
+    });
+
+    const error = await apply({ directories: ['src'] }).catch((applyError: unknown) => applyError);
+    writeSpy.mockRestore();
+
+    expect(error).toBeInstanceOf(RollbackError);
+    expect((error as RollbackError).cause).toEqual(new Error('Disk full'));
+    expect((error as RollbackError).rollback).toMatchObject({
+      restoredFiles: [path.join(root, 'src', 'index.ts'), path.join(root, 'src', 'main.ts')],
+      revertedMoves: [{ from: path.join(root, 'src', 'user-card.tsx'), to: path.join(root, 'src', 'UserCard.tsx') }],
+      failures: [],
+    });
+    expect(fs.readdirSync(path.join(root, 'src')).sort()).toEqual(['UserCard.tsx', 'index.ts', 'main.ts']);
+    expect(fs.readFileSync(path.join(root, 'src', 'index.ts'), 'utf8')).toBe("import UserCard from './UserCard';\n");
+  });
+
+  test('leaves the files untouched in a dry run', async () => {
+    const result = await apply({ directories: ['src'] }, { dryRun: true });
+
+    expect(result.renamedItems).toHaveLength(1);
+    expect(result.journalPath).toBeUndefined();
+    expect(fs.readdirSync(path.join(root, 'src')).sort()).toEqual(['UserCard.tsx', 'index.ts']);
+  });
+});
+
+describe('check', () => {
+  test('reports violations', async () => {
+    const result = await check({ directories: ['src'] });
+
+    expect(result.violations.map((violation) => violation.path)).toEqual(['src/UserCard.tsx']);
+  });
+});
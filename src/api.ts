@@ -0,0 +1,538 @@
+import type { FileSystemItem, MoveOperation } from './types/index.js';
+import { type CheckResult, checkDirectories } from './utils/check.js';
+import { planConfigUpdates } from './utils/config-references.js';
+import { type Conflict, type ConflictResolution, detectConflicts, resolveConflicts } from './utils/conflicts.js';
+import { createFileIndex } from './utils/file-list.js';
+import { generateMoveOperations, getItemMoves, getItemsToRename, scanDirectories } from './utils/file-scanner.js';
+import {
+  type CommitMessages,
+  DEFAULT_COMMIT_MESSAGES,
+  checkGitStatus,
+  commitChanges,
+  executeMoveOperations,
+  formatCommitMessage,
+  getGitHead,
+  hasStagedChanges,
+} from './utils/git.js';
+import {
+  type ImportReference,
+  type ImportUpdate,
+  applyImportUpdates,
+  findImportReferences,
+  planImportUpdates,
+} from './utils/import-updater.js';
+import { createJournal, recordFileChange, recordMove, writeJournal } from './utils/journal.js';
+import { type LogOptions, createLogEntry, createStepTimer, writeLog } from './utils/logger.js';
+import { type NamingStrategy, getNamingStrategy } from './utils/naming.js';
+import { type PathFilter, createPathFilter } from './utils/path-filter.js';
+import { applyPresets, getPreset, getProtectedNames } from './utils/presets.js';
+import { createRenameMap } from './utils/rename-map.js';
+import { runTransaction } from './utils/transaction.js';
+
+/**
+ * Steps of a run, reported through `onStep` as they start
+ */
+export type PipelineStep =
+  | 'checking-git'
+  | 'scanning'
+  | 'reviewing'
+  | 'planning'
+  | 'renaming'
+  | 'updating-imports'
+  | 'committing'
+  | 'writing-log';
+
+/**
+ * Events of a run, reported through `onEvent` as they happen. Paths are in the form the
+ * directories were given in.
+ */
+export type PipelineEvent =
+  | { type: 'step'; step: PipelineStep }
+  | { type: 'planned'; items: number; files: number }
+  /** A rename a dry run would make */
+  | { type: 'rename-planned'; from: string; to: string }
+  /** A file a dry run would update */
+  | { type: 'update-planned'; filePath: string }
+  | { type: 'item-renamed'; from: string; to: string; processed: number; total: number }
+  | { type: 'file-updated'; filePath: string; processed: number; total: number }
+  | { type: 'warning'; message: string }
+  | { type: 'error'; message: string; details?: string[] }
+  | {
+      type: 'completed';
+      dryRun: boolean;
+      renamedItems: number;
+      updatedFiles: number;
+      commits?: string[];
+      journalPath?: string;
+      logPath?: string;
+    };
+
+export interface PlanOptions {
+  /** Directories whose contents are renamed */
+  directories: string[];
+  /** Naming strategy, or the name of a registered one, defaults to kebab-case */
+  namingStrategy?: NamingStrategy | string;
+  /** Plan even if the git repository has uncommitted changes */
+  force?: boolean;
+  /** How conflicting renames are handled, defaults to `abort` */
+  onConflict?: ConflictResolution;
+  /** Bundler-style aliases such as `{ "@": "./src" }`, relative to the working directory */
+  aliases?: Record<string, string>;
+  /** Decides which paths are skipped or kept under their name, defaults to the default excludes */
+  pathFilter?: PathFilter;
+  /**
+   * Framework presets whose naming rules are followed, such as `next`. Their protected
+   * names are added to the default path filter, a given one needs them as `protect` globs.
+   */
+  presets?: string[];
+  /** Extensions of the files whose imports are rewritten */
+  extensions?: string[];
+  /**
+   * Git ref limiting the renames to files added, modified or renamed since, and directories
+   * whose every file did. Imports are still updated everywhere.
+   */
+  since?: string;
+  /** Limit the renames to staged files, and directories whose every file is staged */
+  staged?: boolean;
+  /** Limit the renames to these files, and directories whose every file is listed */
+  files?: string[];
+}
+
+export interface PlanHooks {
+  onEvent?: (event: PipelineEvent) => void;
+  /**
+   * Review the scanned items before conflicts are checked, e.g. to let a user accept,
+   * reject or edit renames. Resolve with the items to use, or `undefined` to cancel.
+   */
+  review?: (items: FileSystemItem[], references: ImportReference[]) => Promise<FileSystemItem[] | undefined>;
+}
+
+export interface RenamePlan {
+  directories: string[];
+  namingStrategy: NamingStrategy;
+  /** Whether the directories are inside a git repository, moves then go through `git mv` */
+  useGit: boolean;
+  gitHead?: string;
+  /** Every scanned item, with conflicts resolved */
+  items: FileSystemItem[];
+  itemsToRename: FileSystemItem[];
+  moveOperations: MoveOperation[];
+  /** Updates of files referencing renamed paths: imports, manifests and tool configs */
+  importUpdates: ImportUpdate[];
+  /** Conflicts that were resolved automatically */
+  resolvedConflicts: string[];
+  /** References in manifests and tool configs that point at renamed paths but must be updated by hand */
+  unsafeReferences: string[];
+  /** Options the plan was created with, recorded in the log */
+  options: Omit<PlanOptions, 'directories' | 'namingStrategy' | 'pathFilter'>;
+  /** Milliseconds spent in each planning step */
+  durations: Record<string, number>;
+}
+
+export interface ApplyOptions {
+  /** Return what would be done without touching any files */
+  dryRun?: boolean;
+  /** Where and how to write the run log, no log is written if not set */
+  log?: LogOptions;
+  /**
+   * Commit the moves and the updated files as two separate commits, so git follows the
+   * renames. Nothing is committed if not set.
+   */
+  commit?: CommitMessages;
+  onEvent?: (event: PipelineEvent) => void;
+}
+
+export interface ApplyResult {
+  plan: RenamePlan;
+  dryRun: boolean;
+  renamedItems: FileSystemItem[];
+  /** Files whose imports were (or, in a dry run, would be) updated */
+  updatedFiles: string[];
+  /** Path of the journal `baptist undo` reverts the run with */
+  journalPath?: string;
+  /** Hashes of the rename commit and, if any tracked files were updated, the content commit */
+  commits?: string[];
+  logPath?: string;
+  /** Milliseconds spent in each step, planning included */
+  durations: Record<string, number>;
+}
+
+/**
+ * Thrown when the git repository of a directory has uncommitted changes
+ */
+export class DirtyRepositoryError extends Error {
+  readonly repositories: string[];
+  readonly dirtyFiles: string[];
+
+  constructor(repositories: string[], dirtyFiles: string[]) {
+    const repositoryList = repositories.join(', ');
+
+    super(
+      `Git repository has uncommitted modified files in: ${repositoryList}. Please commit or stash your changes first.`
+    );
+    this.name = 'DirtyRepositoryError';
+    this.repositories = repositories;
+    this.dirtyFiles = dirtyFiles;
+  }
+}
+
+/**
+ * Thrown when renames conflict and could not be resolved
+ */
+export class ConflictError extends Error {
+  readonly conflicts: Conflict[];
+
+  constructor(conflicts: Conflict[]) {
+    super(`Found ${conflicts.length} conflicting renames`);
+    this.name = 'ConflictError';
+    this.conflicts = conflicts;
+  }
+}
+
+/**
+ * Thrown when the review of a plan is cancelled
+ */
+export class ReviewCancelledError extends Error {
+  constructor() {
+    super('Review cancelled, nothing was renamed.');
+    this.name = 'ReviewCancelledError';
+  }
+}
+
+/**
+ * Resolve the naming strategy and path filter of a run, following the rules of its presets
+ */
+function resolveNaming({
+  namingStrategy,
+  pathFilter,
+  presets: presetNames = [],
+}: Pick<PlanOptions, 'namingStrategy' | 'pathFilter' | 'presets'>): {
+  namingStrategy: NamingStrategy;
+  pathFilter: PathFilter;
+} {
+  const presets = presetNames.map((name) => getPreset(name));
+
+  return {
+    namingStrategy: applyPresets(
+      typeof namingStrategy === 'object' ? namingStrategy : getNamingStrategy(namingStrategy),
+      presets
+    ),
+    pathFilter: pathFilter ?? createPathFilter({ protect: getProtectedNames(presets) }),
+  };
+}
+
+/**
+ * Turn an error of a run into the event reporting it
+ */
+function createErrorEvent(error: unknown): PipelineEvent {
+  return {
+    type: 'error',
+    message: error instanceof Error ? error.message : String(error),
+    details:
+      error instanceof ConflictError
+        ? error.conflicts.map((conflict) => `${conflict.targetPath}: ${conflict.message}`)
+        : undefined,
+  };
+}
+
+async function createPlan(options: PlanOptions, hooks: PlanHooks): Promise<RenamePlan> {
+  const {
+    directories,
+    force = false,
+    onConflict = 'abort',
+    aliases,
+    extensions,
+    presets,
+    since,
+    staged,
+    files,
+  } = options;
+  const { namingStrategy, pathFilter } = resolveNaming(options);
+  const timer = createStepTimer();
+
+  if (directories.length === 0) {
+    throw new Error('Please provide at least one directory to process');
+  }
+
+  hooks.onEvent?.({ type: 'step', step: 'checking-git' });
+  const gitStatus = checkGitStatus(directories);
+  if (gitStatus && gitStatus.isDirty && !force) {
+    throw new DirtyRepositoryError(
+      gitStatus.gitRepositories.filter((repo) => gitStatus.dirtyFiles.some((file) => file.startsWith(repo))),
+      gitStatus.dirtyFiles
+    );
+  }
+
+  const gitHead = getGitHead(directories[0]);
+  timer.endStep('checking-git');
+
+  // The directory tree is walked once and shared by every step
+  hooks.onEvent?.({ type: 'step', step: 'scanning' });
+  const fileIndex = createFileIndex({ pathFilter });
+  let { items } = await scanDirectories(directories, {
+    namingStrategy,
+    fileIndex,
+    changes: { since, staged, files },
+  });
+  timer.endStep('scanning');
+
+  if (hooks.review) {
+    hooks.onEvent?.({ type: 'step', step: 'reviewing' });
+    const reviewedItems = await hooks.review(
+      items,
+      await findImportReferences(directories, { aliases, extensions, fileIndex })
+    );
+    if (!reviewedItems) {
+      throw new ReviewCancelledError();
+    }
+
+    items = reviewedItems;
+    timer.endStep('reviewing');
+  }
+
+  // Find conflicting renames before anything moves
+  hooks.onEvent?.({ type: 'step', step: 'planning' });
+  const conflicts = detectConflicts(items);
+  const conflictResult =
+    conflicts.length === 0 || onConflict === 'abort'
+      ? { items, resolved: [], unresolved: conflicts }
+      : resolveConflicts(items, onConflict);
+
+  if (conflictResult.unresolved.length > 0) {
+    throw new ConflictError(conflictResult.unresolved);
+  }
+
+  const itemsToRename = getItemsToRename({ items: conflictResult.items, totalItems: conflictResult.items.length });
+
+  // Import updates are computed against the original tree, before anything moves
+  const renameMap = createRenameMap(itemsToRename);
+  const configUpdates = await planConfigUpdates(directories, {
+    renameMap,
+    fileIndex,
+    importUpdates: await planImportUpdates(directories, { renameMap, aliases, extensions, fileIndex }),
+  });
+  timer.endStep('planning');
+
+  for (const message of [...conflictResult.resolved, ...configUpdates.unsafeReferences]) {
+    hooks.onEvent?.({ type: 'warning', message });
+  }
+
+  hooks.onEvent?.({ type: 'planned', items: itemsToRename.length, files: configUpdates.updates.length });
+
+  return {
+    directories,
+    namingStrategy,
+    useGit: gitStatus !== false,
+    gitHead,
+    items: conflictResult.items,
+    itemsToRename,
+    moveOperations: generateMoveOperations(itemsToRename),
+    importUpdates: configUpdates.updates,
+    resolvedConflicts: conflictResult.resolved,
+    unsafeReferences: configUpdates.unsafeReferences,
+    options: { force, onConflict, aliases, extensions, presets, since, staged },
+    durations: timer.durations,
+  };
+}
+
+async function applyPlan(renamePlan: RenamePlan, options: ApplyOptions): Promise<ApplyResult> {
+  const { dryRun = false, log, commit, onEvent } = options;
+  const timer = createStepTimer();
+  const moves = getItemMoves(renamePlan.moveOperations);
+
+  if (dryRun || renamePlan.itemsToRename.length === 0) {
+    for (const { from, to } of moves) {
+      onEvent?.({ type: 'rename-planned', from, to });
+    }
+    for (const update of renamePlan.importUpdates) {
+      onEvent?.({ type: 'update-planned', filePath: update.filePath });
+    }
+
+    onEvent?.({
+      type: 'completed',
+      dryRun,
+      renamedItems: renamePlan.itemsToRename.length,
+      updatedFiles: renamePlan.importUpdates.length,
+    });
+
+    return {
+      plan: renamePlan,
+      dryRun,
+      renamedItems: renamePlan.itemsToRename,
+      updatedFiles: renamePlan.importUpdates.map((update) => update.filePath),
+      durations: renamePlan.durations,
+    };
+  }
+
+  // Anything already staged would end up in the rename commit
+  if (commit && !renamePlan.useGit) {
+    throw new Error('Committing needs the directories to be inside a git repository');
+  }
+
+  if (commit && hasStagedChanges(renamePlan.directories[0])) {
+    throw new Error('Git repository has staged changes. Please commit or unstage them first.');
+  }
+
+  const journal = createJournal(renamePlan.directories, renamePlan.useGit);
+  let updatedFiles: string[];
+  let journalPath: string | undefined;
+
+  try {
+    updatedFiles = await runTransaction(journal, async () => {
+      onEvent?.({ type: 'step', step: 'renaming' });
+      let renamedCount = 0;
+      for (const operation of renamePlan.moveOperations) {
+        executeMoveOperations([operation], journal.useGit, {
+          onMove: (move) => recordMove(journal, move),
+        });
+
+        // The first half of a case-only rename is not reported on its own
+        const move = moves[renamedCount];
+        if (operation.to === move.to) {
+          renamedCount++;
+          onEvent?.({ type: 'item-renamed', ...move, processed: renamedCount, total: moves.length });
+          // Let reporters render between the synchronous moves
+          await new Promise((resolve) => setImmediate(resolve));
+        }
+      }
+      timer.endStep('renaming');
+
+      onEvent?.({ type: 'step', step: 'updating-imports' });
+      let updatedCount = 0;
+      const writtenFiles = await applyImportUpdates(renamePlan.importUpdates, {
+        onBeforeWrite: (update) => recordFileChange(journal, update),
+        onWrite: (update) => {
+          updatedCount++;
+          onEvent?.({
+            type: 'file-updated',
+            filePath: update.filePath,
+            processed: updatedCount,
+            total: renamePlan.importUpdates.length,
+          });
+        },
+      });
+      timer.endStep('updating-imports');
+      return writtenFiles;
+    });
+  } finally {
+    // Rolled back runs are kept too, marked as undone
+    if (journal.moves.length > 0 || journal.files.length > 0) {
+      journalPath = writeJournal(journal);
+    }
+  }
+
+  let commits: string[] | undefined;
+  if (commit) {
+    onEvent?.({ type: 'step', step: 'committing' });
+    const messages = {
+      rename: commit.rename ?? DEFAULT_COMMIT_MESSAGES.rename,
+      content: commit.content ?? DEFAULT_COMMIT_MESSAGES.content,
+    };
+    const caseName = renamePlan.namingStrategy.name;
+
+    // `git mv` only staged the moves, the updated references are committed separately
+    const renameCommit = commitChanges(
+      formatCommitMessage(messages.rename, { count: renamePlan.itemsToRename.length, case: caseName }),
+      [],
+      renamePlan.directories[0]
+    );
+    const contentCommit = commitChanges(
+      formatCommitMessage(messages.content, { count: updatedFiles.length, case: caseName }),
+      updatedFiles,
+      renamePlan.directories[0]
+    );
+    commits = [renameCommit, contentCommit].filter((hash) => hash !== undefined);
+    timer.endStep('committing');
+  }
+
+  const durations = { ...renamePlan.durations, ...timer.durations };
+  let logPath: string | undefined;
+
+  if (log) {
+    onEvent?.({ type: 'step', step: 'writing-log' });
+    const { force, onConflict, aliases, presets, since, staged } = renamePlan.options;
+    const logEntry = createLogEntry(renamePlan.directories, renamePlan.itemsToRename, updatedFiles, {
+      flags: {
+        case: renamePlan.namingStrategy.name,
+        force,
+        onConflict,
+        commit: commit !== undefined,
+        preset: presets && presets.length > 0 ? presets.join(',') : undefined,
+        since,
+        staged,
+        alias: aliases && Object.keys(aliases).length > 0 ? aliases : undefined,
+      },
+      gitHeadBefore: renamePlan.gitHead,
+      gitHeadAfter: getGitHead(renamePlan.directories[0]),
+      durations,
+      warnings: [...renamePlan.resolvedConflicts, ...renamePlan.unsafeReferences],
+    });
+    logPath = writeLog(logEntry, log);
+  }
+
+  onEvent?.({
+    type: 'completed',
+    dryRun,
+    renamedItems: renamePlan.itemsToRename.length,
+    updatedFiles: updatedFiles.length,
+    commits,
+    journalPath,
+    logPath,
+  });
+
+  return {
+    plan: renamePlan,
+    dryRun,
+    renamedItems: renamePlan.itemsToRename,
+    updatedFiles,
+    journalPath,
+    commits,
+    logPath,
+    durations,
+  };
+}
+
+/**
+ * Plan a run without touching any files: scan the directories, resolve conflicts and
+ * compute the moves and import updates
+ */
+export async function plan(options: PlanOptions, hooks: PlanHooks = {}): Promise<RenamePlan> {
+  try {
+    return await createPlan(options, hooks);
+  } catch (error) {
+    if (!(error instanceof ReviewCancelledError)) {
+      hooks.onEvent?.(createErrorEvent(error));
+    }
+    throw error;
+  }
+}
+
+/**
+ * Apply a plan: move the files and directories and update the imports. Every step is
+ * recorded in a journal, so the run is rolled back if a step fails and can be undone
+ * later otherwise. Plans first when given plan options.
+ */
+export async function apply(input: RenamePlan | PlanOptions, options: ApplyOptions = {}): Promise<ApplyResult> {
+  const renamePlan =
+    'moveOperations' in input
+      ? input
+      : await plan({ ...input, force: input.force || options.dryRun }, { onEvent: options.onEvent });
+
+  try {
+    return await applyPlan(renamePlan, options);
+  } catch (error) {
+    options.onEvent?.(createErrorEvent(error));
+    throw error;
+  }
+}
+
+/**
+ * Find every file and directory that does not follow the naming convention, without
+ * renaming anything
+ */
+export async function check(
+  options: Pick<PlanOptions, 'directories' | 'namingStrategy' | 'pathFilter' | 'presets' | 'since' | 'staged' | 'files'>
+): Promise<CheckResult> {
+  const { directories, since, staged, files } = options;
+  return checkDirectories(directories, { ...resolveNaming(options), changes: { since, staged, files } });
+}
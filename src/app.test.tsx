@@ -0,0 +1,67 @@
+import { render } from 'ink-testing-library';
+import fs from 'node:fs';
+import path from 'node:path';
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import {
+  type WriteFile,
+  createTemporaryDirectory,
+  removeTemporaryDirectory,
+} from './__fixtures__/temporary-directory.js';
+import App from './app.js';
+import { getNamingStrategy } from './utils/naming.js';
+import { createPathFilter } from './utils/path-filter.js';
+
+const initialDirectory = process.cwd();
+let root: string;
+let writeFile: WriteFile;
+
+beforeEach(() => {
+  ({ root, writeFile } = createTemporaryDirectory());
+  writeFile('src/Components/UserCard.tsx', 'export default 1;');
+  writeFile('src/index.ts', "import UserCard from './Components/UserCard';\n");
+  process.chdir(root);
+});
+
+afterEach(() => {
+  process.chdir(initialDirectory);
+  removeTemporaryDirectory(root);
+});
+
+describe('App', () => {
+  test('previews the renames and import changes of a dry run without touching any files', async () => {
+    const { frames, unmount } = render(
+      <App
+        directories={['src']}
+        force={false}
+        dryRun
+        interactive={false}
+        namingStrategy={getNamingStrategy()}
+        aliases={{}}
+        onConflict="abort"
+        pathFilter={createPathFilter()}
+        presets={[]}
+      />
+    );
+
+    // The app exits once the preview is rendered, which clears the last frame
+    const findPreview = () => frames.find((frame) => frame.includes('Dry run - no files were changed'));
+    await vi.waitFor(() => expect(findPreview()).toBeDefined());
+    const frame = findPreview() ?? '';
+    unmount();
+
+    expect(frame).toContain('Renames (2 items, 3 move commands)');
+    expect(frame).toMatch(/\[DIR]\s+src\/Components\s+src\/components/);
+    expect(frame).toMatch(/\[FILE]\s+src\/components\/UserCard\.tsx\s+src\/components\/user-card\.tsx/);
+    expect(frame).toContain('Import changes (1 files)');
+    expect(frame).toContain("-import UserCard from './Components/UserCard';");
+    expect(frame).toContain("+import UserCard from './components/user-card';");
+    expect(fs.readdirSync(path.join(root, 'src')).sort()).toEqual(['Components', 'index.ts']);
+    expect(fs.readdirSync(path.join(root, 'src', 'Components'))).toEqual(['UserCard.tsx']);
+    expect(fs.readFileSync(path.join(root, 'src', 'index.ts'), 'utf8')).toBe(
+      "import UserCard from './Components/UserCard';\n"
+    );
+    expect(fs.existsSync(path.join(root, '.baptist'))).toBe(false);
+  });
+});
@@ -2,36 +2,104 @@ import { ProgressBar } from '@inkjs/ui';
 import { Box, Text, useApp } from 'ink';
 import React, { useCallback, useEffect, useState } from 'react';
 
-import { generateMoveCommands, getItemsToRename, scanDirectories } from './utils/file-scanner.js';
-import { checkGitStatus, executeGitMoveCommands } from './utils/git.js';
-import { updateImportsInFiles } from './utils/import-updater.js';
-import { createLogEntry, writeLog } from './utils/logger.js';
+import { ConflictError, type PipelineEvent, type PipelineStep, ReviewCancelledError, apply, plan } from './api.js';
+import ConflictReport from './components/conflict-report.js';
+import DryRunPreview from './components/dry-run-preview.js';
+import ReviewScreen from './components/review-screen.js';
+import type { FileSystemItem } from './types/index.js';
+import type { Conflict, ConflictResolution } from './utils/conflicts.js';
+import { formatMoveCommand } from './utils/file-scanner.js';
+import type { CommitMessages } from './utils/git.js';
+import type { ImportReference, ImportUpdate } from './utils/import-updater.js';
+import { type LogOptions, getLogFilePath } from './utils/logger.js';
+import type { NamingStrategy } from './utils/naming.js';
+import type { PathFilter } from './utils/path-filter.js';
+import { STEP_MESSAGES, formatCompletedMessage } from './utils/reporters.js';
+import { RollbackError } from './utils/transaction.js';
+import type { UndoResult } from './utils/undo.js';
 
 type Props = {
   directories: string[];
-  enableLogging: boolean;
+  /** Where and how to write the run log, no log is written if not set */
+  log?: LogOptions;
+  /** Commit the renames and the updated files separately, nothing is committed if not set */
+  commit?: CommitMessages;
   force: boolean;
+  dryRun: boolean;
+  interactive: boolean;
+  namingStrategy: NamingStrategy;
+  aliases: Record<string, string>;
+  onConflict: ConflictResolution;
+  pathFilter: PathFilter;
+  /** Framework presets whose naming rules are followed */
+  presets: string[];
+  /** Git ref limiting the renames to files changed since */
+  since?: string;
+  /** Limit the renames to staged files */
+  staged?: boolean;
+  extensions?: string[];
 };
 
-type ProcessingStep =
-  | 'checking-git'
-  | 'scanning'
-  | 'renaming'
-  | 'updating-imports'
-  | 'writing-log'
-  | 'completed'
-  | 'error';
+type ProcessingStep = PipelineStep | 'completed' | 'error';
+
+/**
+ * Progress when a step starts. Renaming and updating imports advance with every item.
+ */
+const STEP_PROGRESS: Record<PipelineStep, number> = {
+  'checking-git': 0,
+  'scanning': 20,
+  'reviewing': 30,
+  'planning': 35,
+  'renaming': 40,
+  'updating-imports': 80,
+  'committing': 85,
+  'writing-log': 90,
+};
 
 interface ProcessingState {
   step: ProcessingStep;
   progress: number;
   message: string;
   error?: string;
+  rollback?: UndoResult;
+  conflicts?: Conflict[];
+  /** Conflicts that were resolved automatically */
+  resolvedConflicts?: string[];
+  /** References in manifests and tool configs to update by hand */
+  unsafeReferences?: string[];
   totalItems: number;
   processedItems: number;
+  totalFiles: number;
+  updatedFiles: number;
+  review?: {
+    items: FileSystemItem[];
+    references: ImportReference[];
+    /** Called with the reviewed items, or `undefined` when the review is cancelled */
+    onDone: (items?: FileSystemItem[]) => void;
+  };
+  preview?: {
+    itemsToRename: FileSystemItem[];
+    moveCommands: string[];
+    importUpdates: ImportUpdate[];
+  };
 }
 
-export default function App({ directories, enableLogging, force }: Props) {
+export default function App({
+  directories,
+  log,
+  commit,
+  force,
+  dryRun,
+  interactive,
+  namingStrategy,
+  aliases,
+  onConflict,
+  pathFilter,
+  presets,
+  since,
+  staged,
+  extensions,
+}: Props) {
   const { exit } = useApp();
   const [state, setState] = useState<ProcessingState>({
     step: 'checking-git',
@@ -39,6 +107,8 @@ export default function App({ directories, enableLogging, force }: Props) {
     message: 'Checking git status...',
     totalItems: 0,
     processedItems: 0,
+    totalFiles: 0,
+    updatedFiles: 0,
   });
 
   /**
@@ -50,104 +120,146 @@ export default function App({ directories, enableLogging, force }: Props) {
     []
   );
 
+  const reportEvent = useCallback(
+    (event: PipelineEvent) => {
+      switch (event.type) {
+        case 'step': {
+          updateState({ step: event.step, progress: STEP_PROGRESS[event.step], message: STEP_MESSAGES[event.step] });
+          break;
+        }
+        case 'planned': {
+          updateState({ totalItems: event.items, totalFiles: event.files });
+          break;
+        }
+        case 'item-renamed': {
+          updateState({
+            processedItems: event.processed,
+            progress:
+              STEP_PROGRESS.renaming +
+              (STEP_PROGRESS['updating-imports'] - STEP_PROGRESS.renaming) * (event.processed / event.total),
+          });
+          break;
+        }
+        case 'file-updated': {
+          updateState({
+            updatedFiles: event.processed,
+            progress:
+              STEP_PROGRESS['updating-imports'] +
+              (STEP_PROGRESS.committing - STEP_PROGRESS['updating-imports']) * (event.processed / event.total),
+          });
+          break;
+        }
+        case 'completed': {
+          updateState({ step: 'completed', progress: 100, message: formatCompletedMessage(event) });
+          break;
+        }
+        default: {
+          // Warnings and errors are shown from the plan and the thrown error
+          break;
+        }
+      }
+    },
+    [updateState]
+  );
+
   useEffect(() => {
     async function processDirectories() {
       try {
-        // Step 1: Check git status
+        // The dirty check only protects runs that touch files
+        const renamePlan = await plan(
+          {
+            directories,
+            namingStrategy,
+            force: force || dryRun,
+            onConflict,
+            aliases,
+            pathFilter,
+            presets,
+            since,
+            staged,
+            extensions,
+          },
+          {
+            onEvent: reportEvent,
+            // Let the user accept, reject or edit each rename before going on
+            review: interactive
+              ? (items, references) =>
+                  new Promise<FileSystemItem[] | undefined>((resolve) => {
+                    updateState({ review: { items, references, onDone: resolve } });
+                  }).finally(() => updateState({ review: undefined }))
+              : undefined,
+          }
+        );
+
+        const { itemsToRename, importUpdates } = renamePlan;
         updateState({
-          step: 'checking-git',
-          progress: 0,
-          message: 'Checking git status...',
+          resolvedConflicts: renamePlan.resolvedConflicts,
+          unsafeReferences: renamePlan.unsafeReferences,
         });
 
-        const gitStatus = checkGitStatus(directories);
-        if (gitStatus && gitStatus.isDirty && !force) {
+        // In dry-run mode, stop here before touching disk
+        if (dryRun) {
           updateState({
-            step: 'error',
-            error: `Git repository has uncommitted modified files in: ${gitStatus.gitRepositories
-              .filter((repo) => gitStatus.dirtyFiles.some((file) => file.startsWith(repo)))
-              .join(', ')}. Please commit or stash your changes first.`,
+            step: 'completed',
+            progress: 100,
+            message: `Dry run: ${itemsToRename.length} items would be renamed and ${importUpdates.length} files updated`,
+            totalItems: itemsToRename.length,
+            preview: {
+              itemsToRename,
+              moveCommands: renamePlan.moveOperations.map((operation) => formatMoveCommand(operation)),
+              importUpdates,
+            },
           });
           return;
         }
 
-        // Step 2: Scan directories
-        updateState({
-          step: 'scanning',
-          progress: 20,
-          message: 'Scanning directories for files to rename...',
-        });
-
-        const scanResult = scanDirectories(directories);
-        const itemsToRename = getItemsToRename(scanResult);
-
         if (itemsToRename.length === 0) {
           updateState({
             step: 'completed',
             progress: 100,
             message: 'No files or directories need to be renamed.',
-            totalItems: scanResult.totalItems,
+            totalItems: renamePlan.items.length,
           });
           return;
         }
 
-        updateState({
-          totalItems: itemsToRename.length,
-          message: `Found ${itemsToRename.length} items to rename...`,
-        });
-
-        // Step 3: Rename files and directories
-        updateState({
-          step: 'renaming',
-          progress: 40,
-          message: 'Renaming files and directories...',
-        });
-
-        const moveCommands = generateMoveCommands(itemsToRename);
-        executeGitMoveCommands(moveCommands, gitStatus !== false);
+        updateState({ message: `Found ${itemsToRename.length} items to rename...` });
 
-        updateState({
-          progress: 60,
-          processedItems: itemsToRename.length,
-        });
-
-        // Step 4: Update import statements
-        updateState({
-          step: 'updating-imports',
-          progress: 80,
-          message: 'Updating import statements...',
-        });
-
-        const updatedFiles = updateImportsInFiles(directories);
-
-        // Step 5: Write log if enabled
-        if (enableLogging) {
-          updateState({
-            step: 'writing-log',
-            progress: 90,
-            message: 'Writing log file...',
-          });
-
-          const logEntry = createLogEntry(directories, itemsToRename, updatedFiles);
-          writeLog(logEntry);
+        await apply(renamePlan, { log, commit, onEvent: reportEvent });
+      } catch (error) {
+        if (error instanceof ReviewCancelledError) {
+          updateState({ step: 'completed', progress: 100, message: error.message });
+          return;
         }
 
-        // Step 6: Complete
-        updateState({
-          step: 'completed',
-          progress: 100,
-          message: `✅ Successfully renamed ${itemsToRename.length} items and updated ${updatedFiles.length} files`,
-        });
-      } catch (error) {
         updateState({
           step: 'error',
           error: error instanceof Error ? error.message : 'An unknown error occurred',
+          conflicts: error instanceof ConflictError ? error.conflicts : undefined,
+          rollback: error instanceof RollbackError ? error.rollback : undefined,
         });
       }
     }
 
     processDirectories();
-  }, [directories, enableLogging, updateState, force]);
+  }, [
+    directories,
+    log,
+    commit,
+    updateState,
+    reportEvent,
+    force,
+    dryRun,
+    interactive,
+    namingStrategy,
+    aliases,
+    onConflict,
+    pathFilter,
+    presets,
+    since,
+    staged,
+    extensions,
+  ]);
 
   // Exit after completion or error
   useEffect(() => {
@@ -162,7 +274,7 @@ export default function App({ directories, enableLogging, force }: Props) {
     <Box flexDirection="column" paddingX={2} paddingY={1}>
       <Box marginBottom={1}>
         <Text bold color="blue">
-          🔄 Baptist - Kebab-case File Converter
+          🔄 Baptist - {namingStrategy.name}-case File Converter
         </Text>
       </Box>
 
@@ -170,12 +282,71 @@ export default function App({ directories, enableLogging, force }: Props) {
         <Text>Processing directories: {directories.join(', ')}</Text>
       </Box>
 
-      {state.step === 'error' ? (
+      {state.resolvedConflicts && state.resolvedConflicts.length > 0 && (
+        <Box flexDirection="column" marginBottom={1}>
+          <Text color="yellow" bold>
+            ⚠️ Resolved conflicts:
+          </Text>
+          {state.resolvedConflicts.map((resolution) => (
+            <Text key={resolution} color="yellow">
+              {'  '}- {resolution}
+            </Text>
+          ))}
+        </Box>
+      )}
+
+      {state.unsafeReferences && state.unsafeReferences.length > 0 && (
+        <Box flexDirection="column" marginBottom={1}>
+          <Text color="yellow" bold>
+            ⚠️ References to update by hand:
+          </Text>
+          {state.unsafeReferences.map((reference) => (
+            <Text key={reference} color="yellow">
+              {'  '}- {reference}
+            </Text>
+          ))}
+        </Box>
+      )}
+
+      {state.review ? (
+        <ReviewScreen
+          items={state.review.items}
+          references={state.review.references}
+          onConfirm={state.review.onDone}
+          onCancel={() => state.review?.onDone()}
+        />
+      ) : state.preview ? (
+        <DryRunPreview
+          itemsToRename={state.preview.itemsToRename}
+          moveCommands={state.preview.moveCommands}
+          importUpdates={state.preview.importUpdates}
+        />
+      ) : state.conflicts ? (
+        <ConflictReport conflicts={state.conflicts} />
+      ) : state.step === 'error' ? (
         <Box flexDirection="column">
           <Text color="red" bold>
             ❌ Error:
           </Text>
           <Text color="red">{state.error}</Text>
+
+          {state.rollback && (
+            <Box flexDirection="column" marginTop={1}>
+              <Text color="yellow" bold>
+                ↩️ Rolled back:
+              </Text>
+              {state.rollback.revertedMoves.map((move) => (
+                <Text key={`${move.from}:${move.to}`} color="yellow">
+                  {'  '}[MOVE] {move.from} =&gt; {move.to}
+                </Text>
+              ))}
+              {state.rollback.restoredFiles.map((file) => (
+                <Text key={file} color="yellow">
+                  {'  '}[FILE] {file}
+                </Text>
+              ))}
+            </Box>
+          )}
         </Box>
       ) : (
         <Box flexDirection="column">
@@ -188,16 +359,21 @@ export default function App({ directories, enableLogging, force }: Props) {
           </Box>
 
           {state.totalItems > 0 && (
-            <Box>
+            <Box flexDirection="column">
               <Text color="gray">
                 Items processed: {state.processedItems}/{state.totalItems}
               </Text>
+              {state.totalFiles > 0 && (
+                <Text color="gray">
+                  Files updated: {state.updatedFiles}/{state.totalFiles}
+                </Text>
+              )}
             </Box>
           )}
 
-          {enableLogging && (
+          {log && (
             <Box marginTop={1}>
-              <Text color="yellow">📝 Logging enabled - will write to baptist.log</Text>
+              <Text color="yellow">📝 Logging enabled - will write to {getLogFilePath(log)}</Text>
             </Box>
           )}
         </Box>
@@ -1,41 +1,538 @@
 import { render } from 'ink';
 import meow from 'meow';
+import path from 'node:path';
 import React from 'react';
 
+import { apply, check } from './api.js';
 import App from './app.js';
+import Undo from './commands/undo.js';
+import Watch from './commands/watch.js';
+import { registerAcronyms } from './utils/acronyms.js';
+import { CHECK_FORMATS, type CheckFormat, formatCheckResult } from './utils/check.js';
+import { type BaptistConfig, type LoadedConfig, loadConfig } from './utils/config.js';
+import { CONFLICT_RESOLUTIONS, type ConflictResolution } from './utils/conflicts.js';
+import { formatMoveCommand } from './utils/file-scanner.js';
+import { fixStagedFiles, installHook, uninstallHook } from './utils/hooks.js';
+import { LOG_FORMATS, type LogFormat, type LogOptions } from './utils/logger.js';
+import {
+  DEFAULT_NAMING_STRATEGY,
+  type NamingStrategy,
+  getNamingStrategy,
+  getNamingStrategyNames,
+  registerNamingStrategy,
+} from './utils/naming.js';
+import { type PathFilter, createPathFilter } from './utils/path-filter.js';
+import { PRESET_NAMES, getPreset, getProtectedNames } from './utils/presets.js';
+import {
+  REPORTER_NAMES,
+  type ReporterName,
+  createJsonReporter,
+  createPlainReporter,
+  getDefaultReporter,
+} from './utils/reporters.js';
 
 const cli = meow(
   `
 	Usage
 	  $ baptist <directories...>
+	  $ baptist undo [journal]
+	  $ baptist check <directories...>
+	  $ baptist watch <directories...>
+	  $ baptist hook install|uninstall [directories...]
+
+	Commands
+	  undo  Revert a previous run from its journal (defaults to the latest one in .baptist/journals)
+	  check  Report files and directories not following the naming convention without renaming anything, exits with code 1 if there are any
+	  watch  Watch the directories and report new or renamed files not following the naming convention, or rename them with --fix
+	  hook  Install a pre-commit hook (plain git, husky or lefthook) that blocks commits of staged files not following the naming convention, or renames them with --fix, or remove it again
 
 	Options
-	  --force  Force the operation to run even if the git repository has uncommitted changes
-		--log  Enable logging to baptist.log file
+	  --force  Force the operation to run even if the git repository has uncommitted changes (or, for undo, if files changed since the run)
+	  --log  Write a report of the run to .baptist/baptist.log
+	  --log-format  Format of the report: text (default), json or markdown (implies --log)
+	  --log-file  Path of the report, defaults to .baptist/baptist.{log,json,md} (implies --log)
+	  --log-append  Add the report to the existing log file instead of replacing it, keeping one entry per run
+	  --dry-run  Preview renames and import changes without touching any files
+	  --commit  Commit the renames and the updated imports as two separate commits, so git log --follow and git blame follow the renames
+	  --commit-message  Message of the rename commit, {count} and {case} are filled in (implies --commit)
+	  --content-commit-message  Message of the commit updating the imports (implies --commit)
+	  --interactive, -i  Review the planned renames and accept, reject or rename each item before anything changes
+	  --since  Only rename files added, modified or renamed since a git ref, and folders whose every file is, imports are still updated everywhere
+	  --staged  Only rename staged files, and folders whose every file is staged
+	  --case  Target naming convention: kebab (default), snake, camel or pascal
+	  --preset  Follow the file naming rules of a framework: next, expo-router, sveltekit or nuxt, can be repeated
+	  --on-conflict  What to do when renames conflict: abort (default), skip or suffix
+	  --alias  Bundler import alias as <alias>=<path>, can be repeated (tsconfig paths are read automatically)
+	  --fix  For watch and hook, rename the files right away and update the imports pointing at them
+	  --format  Output format of check: text (default), json or sarif
+	  --reporter  How a run reports its progress: ink (default in a terminal), plain lines (default otherwise, e.g. in CI) or json events, one per line
+	  --config  Path to a config file (defaults to baptist.config.{json,js,mjs,ts} or the "baptist" key in package.json)
+
+	Configuration
+	  Options can also be set in a config file, command line flags take precedence. The config
+	  additionally supports "include" and "exclude" globs, "protect" globs of names to keep and the
+	  "extensions" whose imports are updated. "acronyms" adds words such as "SaaS" to the built-in
+	  acronyms and brand names (XML, HTTPS, iOS, GraphQL, ...) kept together when splitting
+	  names. Paths listed in a .baptistignore file (gitignore syntax) are never touched. Names
+	  such as README.md, LICENSE, Dockerfile and __tests__ are always kept.
+
+	  Inside a pnpm, npm or yarn workspace, imports of the renamed files from other workspace
+	  packages (through their package names and "exports") are updated as well.
+
+	  Paths in package.json, tsconfig files and tool configs (vitest, jest, eslint, ...) pointing
+	  at renamed files are rewritten too. Globs and paths built from several strings that cannot be
+	  updated safely are listed to be updated by hand.
 
 	Examples
 	  $ baptist src components
 	  $ baptist src --log
 	  $ baptist . --log
+	  $ baptist src --log-format markdown --log-file migration.md
+	  $ baptist src --dry-run
+	  $ baptist src --reporter json > events.ndjson
+	  $ baptist src --commit
+	  $ baptist src --interactive
+	  $ baptist src/components --case pascal
+	  $ baptist app --preset next
+	  $ baptist src --alias @=./src --alias ~=./src
+	  $ baptist src --on-conflict suffix
+	  $ baptist src --config baptist.config.ts
+	  $ baptist undo
+	  $ baptist check src --format sarif > baptist.sarif
+	  $ baptist check . --since origin/main
+	  $ baptist watch src --fix
+	  $ baptist hook install src --fix
 `,
   {
     importMeta: import.meta,
+    // Leave unset boolean flags undefined, so they fall back to the config file
+    booleanDefault: undefined,
     flags: {
       force: {
         type: 'boolean',
-        default: false,
       },
       log: {
         type: 'boolean',
-        default: false,
+      },
+      logFormat: {
+        type: 'string',
+      },
+      logFile: {
+        type: 'string',
+      },
+      logAppend: {
+        type: 'boolean',
+      },
+      commit: {
+        type: 'boolean',
+      },
+      commitMessage: {
+        type: 'string',
+      },
+      contentCommitMessage: {
+        type: 'string',
+      },
+      dryRun: {
+        type: 'boolean',
+      },
+      interactive: {
+        type: 'boolean',
+        alias: 'i',
+      },
+      since: {
+        type: 'string',
+      },
+      staged: {
+        type: 'boolean',
+      },
+      case: {
+        type: 'string',
+      },
+      preset: {
+        type: 'string',
+        isMultiple: true,
+        default: [],
+      },
+      onConflict: {
+        type: 'string',
+      },
+      alias: {
+        type: 'string',
+        isMultiple: true,
+        default: [],
+      },
+      fix: {
+        type: 'boolean',
+      },
+      format: {
+        type: 'string',
+        default: 'text',
+      },
+      reporter: {
+        type: 'string',
+      },
+      config: {
+        type: 'string',
       },
     },
   }
 );
 
-if (cli.input.length === 0) {
-  console.error('Error: Please provide at least one directory to process');
-  process.exit(1);
+function runUndo(journalPath?: string) {
+  render(<Undo journalPath={journalPath} force={cli.flags.force ?? false} />);
+}
+
+async function loadProjectConfig(): Promise<LoadedConfig> {
+  try {
+    return await loadConfig(cli.flags.config);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
+
+function resolveNamingStrategy(config: BaptistConfig): NamingStrategy {
+  registerAcronyms(config.acronyms ?? []);
+
+  let caseOption = cli.flags.case;
+  if (caseOption === undefined && typeof config.case === 'function') {
+    registerNamingStrategy({ name: 'custom', convert: config.case });
+    caseOption = 'custom';
+  }
+
+  caseOption ??= typeof config.case === 'string' ? config.case : DEFAULT_NAMING_STRATEGY;
+  if (!getNamingStrategyNames().includes(caseOption.toLowerCase())) {
+    console.error(
+      `Error: Unknown naming convention "${caseOption}". Use one of: ${getNamingStrategyNames().join(', ')}`
+    );
+    process.exit(1);
+  }
+
+  return getNamingStrategy(caseOption);
+}
+
+/**
+ * Get the presets from the command line, or the config if none are given. Presets may be
+ * repeated or separated by commas.
+ */
+function resolvePresets(config: BaptistConfig): string[] {
+  const presets =
+    cli.flags.preset.length > 0
+      ? cli.flags.preset.flatMap((preset) => preset.split(',')).filter((preset) => preset !== '')
+      : typeof config.preset === 'string'
+      ? [config.preset]
+      : config.preset ?? [];
+
+  for (const preset of presets) {
+    if (!PRESET_NAMES.includes(preset.toLowerCase())) {
+      console.error(`Error: Unknown preset "${preset}". Use one of: ${PRESET_NAMES.join(', ')}`);
+      process.exit(1);
+    }
+  }
+
+  return presets;
+}
+
+function createProjectPathFilter({ config, rootDirectory }: LoadedConfig, presets: string[]): PathFilter {
+  return createPathFilter({
+    rootDirectory,
+    include: config.include,
+    exclude: config.exclude,
+    protect: [...(config.protect ?? []), ...getProtectedNames(presets.map((preset) => getPreset(preset)))],
+  });
+}
+
+function resolveOnConflict(config: BaptistConfig): ConflictResolution {
+  const onConflict = cli.flags.onConflict ?? config.onConflict ?? 'abort';
+  if (!CONFLICT_RESOLUTIONS.includes(onConflict as ConflictResolution)) {
+    console.error(`Error: Unknown conflict resolution "${onConflict}". Use one of: ${CONFLICT_RESOLUTIONS.join(', ')}`);
+    process.exit(1);
+  }
+
+  return onConflict as ConflictResolution;
+}
+
+/**
+ * Merge the aliases of the config, relative to the config, with those on the command
+ * line, relative to the working directory
+ */
+function resolveAliases({ config, rootDirectory }: LoadedConfig): Record<string, string> {
+  const aliases: Record<string, string> = Object.fromEntries(
+    Object.entries(config.aliases ?? {}).map(([alias, target]) => [alias, path.resolve(rootDirectory, target)])
+  );
+
+  for (const alias of cli.flags.alias) {
+    const separatorIndex = alias.indexOf('=');
+    if (separatorIndex <= 0 || separatorIndex === alias.length - 1) {
+      console.error(`Error: Invalid alias "${alias}". Use the form <alias>=<path>, for example @=./src`);
+      process.exit(1);
+    }
+
+    aliases[alias.slice(0, separatorIndex)] = alias.slice(separatorIndex + 1);
+  }
+
+  return aliases;
+}
+
+function validateDirectories(directories: string[]) {
+  if (directories.length === 0) {
+    console.error('Error: Please provide at least one directory to process');
+    process.exit(1);
+  }
+}
+
+async function runCheck(directories: string[]) {
+  validateDirectories(directories);
+
+  if (!CHECK_FORMATS.includes(cli.flags.format as CheckFormat)) {
+    console.error(`Error: Unknown format "${cli.flags.format}". Use one of: ${CHECK_FORMATS.join(', ')}`);
+    process.exit(1);
+  }
+
+  const loadedConfig = await loadProjectConfig();
+  const namingStrategy = resolveNamingStrategy(loadedConfig.config);
+  const presets = resolvePresets(loadedConfig.config);
+
+  let result;
+  try {
+    result = await check({
+      directories,
+      namingStrategy,
+      pathFilter: createProjectPathFilter(loadedConfig, presets),
+      presets,
+      since: cli.flags.since,
+      staged: cli.flags.staged,
+    });
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(2);
+  }
+
+  console.log(formatCheckResult(result, cli.flags.format as CheckFormat));
+  process.exitCode = result.violations.length > 0 ? 1 : 0;
 }
 
-render(<App directories={cli.input} enableLogging={cli.flags.log} force={cli.flags.force} />);
+async function runWatch(directories: string[]) {
+  validateDirectories(directories);
+
+  const loadedConfig = await loadProjectConfig();
+  const { config } = loadedConfig;
+  const presets = resolvePresets(config);
+
+  render(
+    <Watch
+      directories={directories}
+      fix={cli.flags.fix ?? false}
+      namingStrategy={resolveNamingStrategy(config)}
+      aliases={resolveAliases(loadedConfig)}
+      onConflict={resolveOnConflict(config)}
+      pathFilter={createProjectPathFilter(loadedConfig, presets)}
+      presets={presets}
+      extensions={config.extensions}
+    />
+  );
+}
+
+/**
+ * Run as a pre-commit hook: block the commit when staged files do not follow the naming
+ * convention, or with --fix rename them, update their importers and stage the changes
+ */
+async function runHookCheck(directories: string[]) {
+  const loadedConfig = await loadProjectConfig();
+  const { config } = loadedConfig;
+  const namingStrategy = resolveNamingStrategy(config);
+  const presets = resolvePresets(config);
+  const pathFilter = createProjectPathFilter(loadedConfig, presets);
+
+  try {
+    if (!cli.flags.fix) {
+      const result = await check({ directories, namingStrategy, pathFilter, presets, staged: true });
+      if (result.violations.length > 0) {
+        console.error(formatCheckResult(result, 'text'));
+        console.error('Commit blocked by baptist. Install the hook with --fix to rename staged files automatically.');
+        process.exitCode = 1;
+      }
+      return;
+    }
+
+    const result = await fixStagedFiles({
+      directories,
+      namingStrategy,
+      onConflict: resolveOnConflict(config),
+      aliases: resolveAliases(loadedConfig),
+      pathFilter,
+      presets,
+      extensions: config.extensions,
+    });
+
+    for (const operation of result.plan.moveOperations) {
+      console.log(`baptist: ${formatMoveCommand(operation)}`);
+    }
+    for (const file of result.updatedFiles) {
+      console.log(`baptist: updated imports in ${file}`);
+    }
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  }
+}
+
+async function runHook([subcommand, ...directoryArguments]: string[]) {
+  const directories = directoryArguments.length > 0 ? directoryArguments : ['.'];
+
+  switch (subcommand) {
+    case 'install': {
+      const { manager, hookPath } = installHook('.', { directories, fix: cli.flags.fix ?? false });
+      console.log(`✅ Installed the baptist pre-commit hook in ${path.relative(process.cwd(), hookPath)} (${manager})`);
+      if (manager === 'lefthook') {
+        console.log('Run `lefthook install` if lefthook is not set up in this clone yet.');
+      }
+      break;
+    }
+    case 'uninstall': {
+      const hookPaths = uninstallHook('.');
+      console.log(
+        hookPaths.length > 0
+          ? `✅ Removed the baptist pre-commit hook from ${hookPaths
+              .map((hookPath) => path.relative(process.cwd(), hookPath))
+              .join(', ')}`
+          : 'No baptist pre-commit hook is installed.'
+      );
+      break;
+    }
+    case 'run': {
+      await runHookCheck(directories);
+      break;
+    }
+    default: {
+      console.error('Error: Unknown hook command. Use one of: install, uninstall');
+      process.exit(1);
+    }
+  }
+}
+
+async function runRename(directories: string[]) {
+  validateDirectories(directories);
+
+  const loadedConfig = await loadProjectConfig();
+  const { config, rootDirectory } = loadedConfig;
+  const namingStrategy = resolveNamingStrategy(config);
+  const presets = resolvePresets(config);
+
+  const logFormat = cli.flags.logFormat ?? config.logFormat ?? 'text';
+  if (!LOG_FORMATS.includes(logFormat as LogFormat)) {
+    console.error(`Error: Unknown log format "${logFormat}". Use one of: ${LOG_FORMATS.join(', ')}`);
+    process.exit(1);
+  }
+
+  // Choosing a log format or file turns logging on
+  const logFile = cli.flags.logFile ?? (config.logFile && path.resolve(rootDirectory, config.logFile));
+  const enableLogging =
+    cli.flags.log ?? config.log ?? (cli.flags.logFormat !== undefined || cli.flags.logFile !== undefined);
+
+  // Choosing a commit message turns committing on
+  const commitMessage = cli.flags.commitMessage ?? config.commitMessage;
+  const contentCommitMessage = cli.flags.contentCommitMessage ?? config.contentCommitMessage;
+  const enableCommit =
+    cli.flags.commit ??
+    config.commit ??
+    (cli.flags.commitMessage !== undefined || cli.flags.contentCommitMessage !== undefined);
+
+  const reporter = cli.flags.reporter ?? getDefaultReporter();
+  if (!REPORTER_NAMES.includes(reporter as ReporterName)) {
+    console.error(`Error: Unknown reporter "${reporter}". Use one of: ${REPORTER_NAMES.join(', ')}`);
+    process.exit(1);
+  }
+
+  const interactive = cli.flags.interactive ?? config.interactive ?? false;
+  if (interactive && (!process.stdin.isTTY || reporter !== 'ink')) {
+    console.error('Error: --interactive needs an interactive terminal and the ink reporter');
+    process.exit(1);
+  }
+
+  const log: LogOptions | undefined = enableLogging
+    ? {
+        format: logFormat as LogFormat,
+        filePath: logFile,
+        append: cli.flags.logAppend ?? config.logAppend ?? false,
+      }
+    : undefined;
+  const commit = enableCommit ? { rename: commitMessage, content: contentCommitMessage } : undefined;
+  const force = cli.flags.force ?? config.force ?? false;
+  const dryRun = cli.flags.dryRun ?? config.dryRun ?? false;
+  const onConflict = resolveOnConflict(config);
+  const aliases = resolveAliases(loadedConfig);
+  const pathFilter = createProjectPathFilter(loadedConfig, presets);
+
+  if (reporter !== 'ink') {
+    // Errors are reported as events as well
+    try {
+      await apply(
+        {
+          directories,
+          namingStrategy,
+          force,
+          onConflict,
+          aliases,
+          pathFilter,
+          presets,
+          since: cli.flags.since,
+          staged: cli.flags.staged,
+          extensions: config.extensions,
+        },
+        { dryRun, log, commit, onEvent: reporter === 'json' ? createJsonReporter() : createPlainReporter() }
+      );
+    } catch {
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  render(
+    <App
+      directories={directories}
+      log={log}
+      commit={commit}
+      force={force}
+      dryRun={dryRun}
+      interactive={interactive}
+      namingStrategy={namingStrategy}
+      aliases={aliases}
+      onConflict={onConflict}
+      pathFilter={pathFilter}
+      presets={presets}
+      since={cli.flags.since}
+      staged={cli.flags.staged}
+      extensions={config.extensions}
+    />
+  );
+}
+
+const [command, ...commandArguments] = cli.input;
+
+switch (command) {
+  case 'undo': {
+    runUndo(commandArguments[0]);
+    break;
+  }
+  case 'check': {
+    await runCheck(commandArguments);
+    break;
+  }
+  case 'watch': {
+    await runWatch(commandArguments);
+    break;
+  }
+  case 'hook': {
+    try {
+      await runHook(commandArguments);
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+    break;
+  }
+  default: {
+    await runRename(cli.input);
+  }
+}
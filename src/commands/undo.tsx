@@ -0,0 +1,111 @@
+import { Box, Text, useApp } from 'ink';
+import React, { useEffect, useState } from 'react';
+
+import { findLatestJournal, readJournal, writeJournal } from '../utils/journal.js';
+import { type UndoResult, undoJournal } from '../utils/undo.js';
+
+type Props = {
+  journalPath?: string;
+  force: boolean;
+};
+
+interface UndoState {
+  step: 'undoing' | 'completed' | 'error';
+  journalPath?: string;
+  result?: UndoResult;
+  error?: string;
+}
+
+export default function Undo({ journalPath, force }: Props) {
+  const { exit } = useApp();
+  const [state, setState] = useState<UndoState>({ step: 'undoing' });
+
+  useEffect(() => {
+    try {
+      const resolvedJournalPath = journalPath ?? findLatestJournal();
+      if (!resolvedJournalPath) {
+        throw new Error('No journal found to undo. Pass the path of a journal file explicitly.');
+      }
+
+      const journal = readJournal(resolvedJournalPath);
+      const result = undoJournal(journal, { force });
+
+      // Mark the journal as undone so it is not picked up again
+      writeJournal(journal, resolvedJournalPath);
+
+      setState({ step: 'completed', journalPath: resolvedJournalPath, result });
+    } catch (error) {
+      setState({
+        step: 'error',
+        error: error instanceof Error ? error.message : 'An unknown error occurred',
+      });
+    }
+  }, [journalPath, force]);
+
+  // Exit after completion or error
+  useEffect(() => {
+    if (state.step === 'completed') {
+      exit();
+    } else if (state.step === 'error') {
+      exit(new Error(state.error || 'Unknown error'));
+    }
+  }, [state.step, state.error, exit]);
+
+  return (
+    <Box flexDirection="column" paddingX={2} paddingY={1}>
+      <Box marginBottom={1}>
+        <Text bold color="blue">
+          ↩️ Baptist - Undo
+        </Text>
+      </Box>
+
+      {state.step === 'error' ? (
+        <Box flexDirection="column">
+          <Text color="red" bold>
+            ❌ Error:
+          </Text>
+          <Text color="red">{state.error}</Text>
+        </Box>
+      ) : state.result ? (
+        <Box flexDirection="column">
+          <Text>Journal: {state.journalPath}</Text>
+
+          {state.result.warnings.length > 0 && (
+            <Box flexDirection="column" marginTop={1}>
+              <Text color="yellow" bold>
+                ⚠️ Warnings:
+              </Text>
+              {state.result.warnings.map((warning) => (
+                <Text key={warning} color="yellow">
+                  {'  '}- {warning}
+                </Text>
+              ))}
+            </Box>
+          )}
+
+          {state.result.failures.length > 0 && (
+            <Box flexDirection="column" marginTop={1}>
+              <Text color="red" bold>
+                ❌ Could not be reverted:
+              </Text>
+              {state.result.failures.map((failure) => (
+                <Text key={failure} color="red">
+                  {'  '}- {failure}
+                </Text>
+              ))}
+            </Box>
+          )}
+
+          <Box marginTop={1}>
+            <Text>
+              ✅ Reverted {state.result.revertedMoves.length} moves and restored {state.result.restoredFiles.length}{' '}
+              files
+            </Text>
+          </Box>
+        </Box>
+      ) : (
+        <Text>Undoing previous run...</Text>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,181 @@
+import { Box, Text, useApp } from 'ink';
+import path from 'node:path';
+import React, { useEffect, useRef, useState } from 'react';
+
+import { apply, check } from '../api.js';
+import type { ConflictResolution } from '../utils/conflicts.js';
+import type { NamingStrategy } from '../utils/naming.js';
+import type { PathFilter } from '../utils/path-filter.js';
+import { watchDirectories } from '../utils/watcher.js';
+
+type Props = {
+  directories: string[];
+  /** Rename new files right away instead of only reporting them */
+  fix: boolean;
+  namingStrategy: NamingStrategy;
+  aliases: Record<string, string>;
+  onConflict: ConflictResolution;
+  pathFilter: PathFilter;
+  presets: string[];
+  extensions?: string[];
+};
+
+/**
+ * Number of events kept on screen
+ */
+const MAX_EVENTS = 20;
+
+interface WatchEvent {
+  id: number;
+  kind: 'warning' | 'renamed' | 'error';
+  message: string;
+}
+
+const EVENT_COLORS: Record<WatchEvent['kind'], string> = {
+  warning: 'yellow',
+  renamed: 'green',
+  error: 'red',
+};
+
+const EVENT_LABELS: Record<WatchEvent['kind'], string> = {
+  warning: '[WARN]  ',
+  renamed: '[RENAME]',
+  error: '[ERROR] ',
+};
+
+export default function Watch({
+  directories,
+  fix,
+  namingStrategy,
+  aliases,
+  onConflict,
+  pathFilter,
+  presets,
+  extensions,
+}: Props) {
+  const { exit } = useApp();
+  const [events, setEvents] = useState<WatchEvent[]>([]);
+  const [batchCount, setBatchCount] = useState(0);
+  /** Why watching could not start */
+  const [error, setError] = useState<string>();
+  const nextEventId = useRef(0);
+
+  useEffect(() => {
+    const addEvents = (newEvents: Omit<WatchEvent, 'id'>[]) =>
+      setEvents((previous) =>
+        [...previous, ...newEvents.map((event) => ({ ...event, id: nextEventId.current++ }))].slice(-MAX_EVENTS)
+      );
+
+    async function handleBatch(files: string[]) {
+      setBatchCount((previous) => previous + 1);
+
+      try {
+        if (!fix) {
+          const result = await check({ directories, namingStrategy, pathFilter, presets, files });
+          addEvents(
+            result.violations.map((violation) => ({
+              kind: 'warning',
+              message: `${violation.path} should be ${violation.suggestedPath}`,
+            }))
+          );
+          return;
+        }
+
+        // Watching goes along with ongoing work, so the tree is never clean. Every batch is
+        // journaled and can be reverted with `baptist undo`.
+        const result = await apply({
+          directories,
+          namingStrategy,
+          force: true,
+          onConflict,
+          aliases,
+          pathFilter,
+          presets,
+          extensions,
+          files,
+        });
+        addEvents(
+          result.renamedItems.map((item) => ({
+            kind: 'renamed',
+            message: `${path.basename(item.originalPath)} => ${item.newPath}${
+              result.updatedFiles.length > 0 ? ` (updated ${result.updatedFiles.length} files)` : ''
+            }`,
+          }))
+        );
+      } catch (error) {
+        addEvents([{ kind: 'error', message: error instanceof Error ? error.message : 'An unknown error occurred' }]);
+      }
+    }
+
+    // Batches are handled one after the other, renames of one batch may affect the next
+    let queue = Promise.resolve();
+    let stopWatching: (() => void) | undefined;
+    let isUnmounted = false;
+    watchDirectories(directories, {
+      pathFilter,
+      onBatch: (files) => {
+        queue = queue.then(() => handleBatch(files));
+      },
+    }).then(
+      (stop) => {
+        if (isUnmounted) {
+          stop();
+        } else {
+          stopWatching = stop;
+        }
+      },
+      (watchError: unknown) => setError(watchError instanceof Error ? watchError.message : 'An unknown error occurred')
+    );
+
+    return () => {
+      isUnmounted = true;
+      stopWatching?.();
+    };
+  }, [directories, fix, namingStrategy, aliases, onConflict, pathFilter, presets, extensions]);
+
+  useEffect(() => {
+    if (error) {
+      exit(new Error(error));
+    }
+  }, [error, exit]);
+
+  return (
+    <Box flexDirection="column" paddingX={2} paddingY={1}>
+      <Box marginBottom={1}>
+        <Text bold color="blue">
+          👀 Baptist - Watching {directories.join(', ')} for names not following {namingStrategy.name}-case
+        </Text>
+      </Box>
+
+      <Box marginBottom={1}>
+        <Text color="gray">
+          {fix
+            ? 'New files are renamed right away and their imports updated.'
+            : 'New files are reported, pass --fix to rename them right away.'}{' '}
+          Press Ctrl+C to stop.
+        </Text>
+      </Box>
+
+      {error ? (
+        <Box flexDirection="column">
+          <Text color="red" bold>
+            ❌ Error:
+          </Text>
+          <Text color="red">{error}</Text>
+        </Box>
+      ) : events.length === 0 ? (
+        <Text color="gray">
+          {batchCount === 0 ? 'Waiting for new files...' : `✅ All new files follow ${namingStrategy.name}-case.`}
+        </Text>
+      ) : (
+        <Box flexDirection="column">
+          {events.map((event) => (
+            <Text key={event.id} color={EVENT_COLORS[event.kind]}>
+              {EVENT_LABELS[event.kind]} {event.message}
+            </Text>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+}
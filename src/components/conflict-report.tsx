@@ -0,0 +1,41 @@
+import { Box, Text } from 'ink';
+import React from 'react';
+
+import type { Conflict, ConflictKind } from '../utils/conflicts.js';
+
+type Props = {
+  conflicts: Conflict[];
+};
+
+const CONFLICT_LABELS: Record<ConflictKind, string> = {
+  'duplicate-target': 'Duplicate target',
+  'existing-target': 'Target exists',
+  'case-insensitive': 'Case-insensitive clash',
+  'leftover-temp': 'Leftover temporary path',
+};
+
+export default function ConflictReport({ conflicts }: Props) {
+  return (
+    <Box flexDirection="column">
+      <Text color="red" bold>
+        ⚠️ Found {conflicts.length} conflicts, nothing was renamed:
+      </Text>
+      {conflicts.map((conflict) => (
+        <Box key={`${conflict.kind}:${conflict.targetPath}`} flexDirection="column" marginTop={1}>
+          <Text color="red">
+            [{CONFLICT_LABELS[conflict.kind]}] {conflict.targetPath}
+          </Text>
+          <Text color="gray">
+            {'  '}
+            {conflict.message}
+          </Text>
+        </Box>
+      ))}
+      <Box marginTop={1}>
+        <Text color="gray">
+          Use --on-conflict skip or --on-conflict suffix to resolve conflicting renames automatically.
+        </Text>
+      </Box>
+    </Box>
+  );
+}
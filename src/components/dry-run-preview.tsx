@@ -0,0 +1,106 @@
+import { createTwoFilesPatch } from 'diff';
+import { Box, Text } from 'ink';
+import React from 'react';
+
+import type { FileSystemItem } from '../types/index.js';
+import type { ImportUpdate } from '../utils/import-updater.js';
+
+type Props = {
+  itemsToRename: FileSystemItem[];
+  moveCommands: string[];
+  importUpdates: ImportUpdate[];
+};
+
+/**
+ * Pick the colour for a single line of a unified diff
+ */
+function getDiffLineColor(line: string): string | undefined {
+  if (line.startsWith('+++') || line.startsWith('---')) return 'gray';
+  if (line.startsWith('@@')) return 'cyan';
+  if (line.startsWith('+')) return 'green';
+  if (line.startsWith('-')) return 'red';
+  return undefined;
+}
+
+/**
+ * Render a unified diff between the original and the rewritten content of a file
+ */
+function UnifiedDiff({ update }: { update: ImportUpdate }) {
+  const patch = createTwoFilesPatch(
+    update.originalFilePath,
+    update.filePath,
+    update.originalContent,
+    update.updatedContent,
+    undefined,
+    undefined,
+    { context: 3 }
+  );
+
+  // Drop the `Index:` and separator lines, they only repeat the file name
+  const lines = patch.split('\n').filter((line) => !line.startsWith('Index:') && !line.startsWith('==='));
+
+  return (
+    <Box flexDirection="column" marginBottom={1}>
+      {lines.map((line, index) => (
+        <Text key={index} color={getDiffLineColor(line)}>
+          {line}
+        </Text>
+      ))}
+    </Box>
+  );
+}
+
+export default function DryRunPreview({ itemsToRename, moveCommands, importUpdates }: Props) {
+  const fromColumnWidth = Math.max(4, ...itemsToRename.map((item) => item.originalPath.length)) + 2;
+
+  return (
+    <Box flexDirection="column">
+      <Box marginBottom={1}>
+        <Text bold color="yellow">
+          🔍 Dry run - no files were changed
+        </Text>
+      </Box>
+
+      <Box flexDirection="column" marginBottom={1}>
+        <Text bold>
+          Renames ({itemsToRename.length} items, {moveCommands.length} move commands)
+        </Text>
+        {itemsToRename.length === 0 ? (
+          <Text color="gray">No files or directories need to be renamed.</Text>
+        ) : (
+          <>
+            <Box>
+              <Box width={8}>
+                <Text color="gray">Type</Text>
+              </Box>
+              <Box width={fromColumnWidth}>
+                <Text color="gray">From</Text>
+              </Box>
+              <Text color="gray">To</Text>
+            </Box>
+            {itemsToRename.map((item) => (
+              <Box key={item.originalPath}>
+                <Box width={8}>
+                  <Text>{item.isDirectory ? '[DIR]' : '[FILE]'}</Text>
+                </Box>
+                <Box width={fromColumnWidth}>
+                  <Text color="red">{item.originalPath}</Text>
+                </Box>
+                <Text color="green">{item.newPath}</Text>
+              </Box>
+            ))}
+          </>
+        )}
+      </Box>
+
+      <Box flexDirection="column">
+        <Text bold>Import changes ({importUpdates.length} files)</Text>
+        {importUpdates.length === 0 ? (
+          <Text color="gray">No import statements need to be updated.</Text>
+        ) : (
+          importUpdates.map((update) => <UnifiedDiff key={update.originalFilePath} update={update} />)
+        )}
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,148 @@
+import { TextInput } from '@inkjs/ui';
+import { Box, Text, useInput } from 'ink';
+import path from 'node:path';
+import React, { useMemo, useState } from 'react';
+
+import type { FileSystemItem } from '../types/index.js';
+import { setItemTargetName } from '../utils/file-scanner.js';
+import type { ImportReference } from '../utils/import-updater.js';
+import { countAffectedImports, countImportsOf, getReviewRows, toggleReviewItem } from '../utils/review.js';
+
+type Props = {
+  items: FileSystemItem[];
+  references: ImportReference[];
+  onConfirm: (items: FileSystemItem[]) => void;
+  onCancel: () => void;
+};
+
+/**
+ * Number of rows shown at once, the list scrolls with the cursor
+ */
+const VISIBLE_ROWS = 15;
+
+export default function ReviewScreen({ items: scannedItems, references, onConfirm, onCancel }: Props) {
+  const [items, setItems] = useState(scannedItems);
+  const [cursor, setCursor] = useState(0);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editError, setEditError] = useState<string>();
+
+  const rows = useMemo(
+    () =>
+      getReviewRows(scannedItems).map((row) => ({
+        ...row,
+        plannedName: path.basename(scannedItems[row.index].newPath),
+        importCount: countImportsOf(references, row.originalPath),
+      })),
+    [scannedItems, references]
+  );
+
+  const selectedRow = rows[cursor];
+  const renamedCount = items.filter((item) => item.needsRename).length;
+  const affectedImports = useMemo(() => countAffectedImports(items, references), [items, references]);
+
+  useInput(
+    (input, key) => {
+      if (key.upArrow || input === 'k') {
+        setCursor((previous) => Math.max(0, previous - 1));
+      } else if (key.downArrow || input === 'j') {
+        setCursor((previous) => Math.min(rows.length - 1, previous + 1));
+      } else if (input === ' ' && selectedRow) {
+        setItems((previous) => toggleReviewItem(previous, selectedRow.index, selectedRow.plannedName));
+      } else if (input === 'e' && selectedRow) {
+        setEditError(undefined);
+        setIsEditing(true);
+      } else if (key.return) {
+        onConfirm(items);
+      } else if (key.escape || input === 'q') {
+        onCancel();
+      }
+    },
+    { isActive: !isEditing }
+  );
+
+  useInput(
+    (_input, key) => {
+      if (key.escape) {
+        setIsEditing(false);
+      }
+    },
+    { isActive: isEditing }
+  );
+
+  const submitName = (name: string) => {
+    const trimmedName = name.trim();
+    if (trimmedName === '' || trimmedName === '.' || trimmedName === '..' || /[/\\]/.test(trimmedName)) {
+      setEditError(`"${name}" is not a valid file name`);
+      return;
+    }
+
+    setItems((previous) => setItemTargetName(previous, previous[selectedRow.index], trimmedName));
+    setIsEditing(false);
+  };
+
+  if (rows.length === 0) {
+    return (
+      <Box flexDirection="column">
+        <Text>No files or directories need to be renamed. Press enter to continue.</Text>
+      </Box>
+    );
+  }
+
+  const firstVisibleRow = Math.min(
+    Math.max(0, cursor - Math.floor(VISIBLE_ROWS / 2)),
+    Math.max(0, rows.length - VISIBLE_ROWS)
+  );
+
+  return (
+    <Box flexDirection="column">
+      <Box marginBottom={1}>
+        <Text bold>
+          Review renames ({renamedCount} selected, {affectedImports} imports affected)
+        </Text>
+      </Box>
+
+      {firstVisibleRow > 0 && <Text color="gray"> ↑ {firstVisibleRow} more</Text>}
+      {rows.slice(firstVisibleRow, firstVisibleRow + VISIBLE_ROWS).map((row) => {
+        const item = items[row.index];
+        const isSelected = row === selectedRow;
+        const currentName = row.depth === 0 ? item.originalPath : path.basename(item.originalPath);
+        const newName = row.depth === 0 ? item.newPath : path.basename(item.newPath);
+
+        return (
+          <Text key={row.index} color={isSelected ? 'cyan' : undefined}>
+            {isSelected ? '❯ ' : '  '}
+            {item.needsRename ? '[x] ' : '[ ] '}
+            {'  '.repeat(row.depth)}
+            <Text color={item.needsRename ? undefined : 'gray'}>
+              {currentName}
+              {item.isDirectory ? '/' : ''}
+            </Text>
+            {item.needsRename && <Text color="green"> → {newName}</Text>}
+            <Text color="gray">
+              {' '}
+              ({row.importCount} {row.importCount === 1 ? 'import' : 'imports'})
+            </Text>
+          </Text>
+        );
+      })}
+      {firstVisibleRow + VISIBLE_ROWS < rows.length && (
+        <Text color="gray"> ↓ {rows.length - firstVisibleRow - VISIBLE_ROWS} more</Text>
+      )}
+
+      <Box flexDirection="column" marginTop={1}>
+        {isEditing && selectedRow ? (
+          <>
+            <Box>
+              <Text>New name for {path.basename(items[selectedRow.index].originalPath)}: </Text>
+              <TextInput defaultValue={path.basename(items[selectedRow.index].newPath)} onSubmit={submitName} />
+            </Box>
+            {editError && <Text color="red">{editError}</Text>}
+            <Text color="gray">enter save · esc cancel</Text>
+          </>
+        ) : (
+          <Text color="gray">↑/↓ move · space toggle · e edit name · enter confirm · q cancel</Text>
+        )}
+      </Box>
+    </Box>
+  );
+}
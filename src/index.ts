@@ -0,0 +1,39 @@
+export {
+  type ApplyOptions,
+  type ApplyResult,
+  ConflictError,
+  DirtyRepositoryError,
+  type PipelineEvent,
+  type PipelineStep,
+  type PlanHooks,
+  type PlanOptions,
+  type RenamePlan,
+  ReviewCancelledError,
+  apply,
+  check,
+  plan,
+} from './api.js';
+export type { FileSystemItem, MoveOperation } from './types/index.js';
+export { DEFAULT_ACRONYMS, registerAcronyms } from './utils/acronyms.js';
+export type { CheckResult, CheckViolation } from './utils/check.js';
+export { type BaptistConfig, type LoadedConfig, loadConfig } from './utils/config.js';
+export type { Conflict, ConflictKind, ConflictResolution } from './utils/conflicts.js';
+export type { ImportReference, ImportUpdate } from './utils/import-updater.js';
+export type { LogFormat, LogOptions } from './utils/logger.js';
+export {
+  type NamingStrategy,
+  getNamingStrategy,
+  getNamingStrategyNames,
+  registerNamingStrategy,
+} from './utils/naming.js';
+export { type PathFilter, type PathFilterOptions, createPathFilter } from './utils/path-filter.js';
+export { PRESET_NAMES, type Preset, getPreset, getProtectedNames } from './utils/presets.js';
+export {
+  REPORTER_NAMES,
+  type Reporter,
+  type ReporterName,
+  createJsonReporter,
+  createPlainReporter,
+} from './utils/reporters.js';
+export { RollbackError } from './utils/transaction.js';
+export type { UndoResult } from './utils/undo.js';
@@ -4,3 +4,8 @@ export interface FileSystemItem {
   isDirectory: boolean;
   needsRename: boolean;
 }
+
+export interface MoveOperation {
+  from: string;
+  to: string;
+}
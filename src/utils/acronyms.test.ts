@@ -0,0 +1,30 @@
+import { describe, expect, test } from 'vitest';
+
+import { registerAcronyms, splitCamelCase } from './acronyms.js';
+
+describe('splitCamelCase', () => {
+  test('splits at camelCase boundaries', () => {
+    expect(splitCamelCase('firstName')).toEqual(['first', 'Name']);
+    expect(splitCamelCase('HTMLElement')).toEqual(['HTML', 'Element']);
+    expect(splitCamelCase('test123ABC')).toEqual(['test123', 'ABC']);
+  });
+
+  test('splits runs of uppercase letters into known acronyms', () => {
+    expect(splitCamelCase('XMLHTTPSConnection')).toEqual(['XML', 'HTTPS', 'Connection']);
+    expect(splitCamelCase('getXMLHTTPRequest')).toEqual(['get', 'XML', 'HTTP', 'Request']);
+    expect(splitCamelCase('parseJSONData')).toEqual(['parse', 'JSON', 'Data']);
+  });
+
+  test('keeps brand names and their digits together', () => {
+    expect(splitCamelCase('iOSButton')).toEqual(['iOS', 'Button']);
+    expect(splitCamelCase('OAuth2Provider')).toEqual(['OAuth2', 'Provider']);
+    expect(splitCamelCase('useGitHubAPI')).toEqual(['use', 'GitHub', 'API']);
+  });
+
+  test('uses registered acronyms', () => {
+    expect(splitCamelCase('SaaSPlan')).toEqual(['Saa', 'S', 'Plan']);
+
+    registerAcronyms(['SaaS']);
+    expect(splitCamelCase('SaaSPlan')).toEqual(['SaaS', 'Plan']);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Acronyms and brand names kept together as one word when splitting names, e.g. `iOS` in
+ * `iOSButton` or `XML` and `HTTPS` in `XMLHTTPSConnection`. Matched case-insensitively.
+ */
+export const DEFAULT_ACRONYMS = [
+  // Web and data formats
+  'API',
+  'CSS',
+  'CSV',
+  'DOM',
+  'GIF',
+  'HTML',
+  'HTTP',
+  'HTTPS',
+  'JPEG',
+  'JPG',
+  'JSON',
+  'JSX',
+  'PDF',
+  'PNG',
+  'SVG',
+  'TSX',
+  'UI',
+  'URI',
+  'URL',
+  'UTF',
+  'UUID',
+  'UX',
+  'XML',
+  'YAML',
+  // Networking and security
+  'CORS',
+  'CSRF',
+  'DNS',
+  'FTP',
+  'IP',
+  'JWT',
+  'OAuth',
+  'OIDC',
+  'OpenID',
+  'REST',
+  'RPC',
+  'gRPC',
+  'SAML',
+  'SMTP',
+  'SSH',
+  'SSL',
+  'SSO',
+  'TCP',
+  'TLS',
+  'UDP',
+  'XSS',
+  // Platforms and tools
+  'AWS',
+  'CLI',
+  'CPU',
+  'GPU',
+  'ID',
+  'IO',
+  'SDK',
+  'SQL',
+  'SSR',
+  'GraphQL',
+  'GitHub',
+  'GitLab',
+  'JavaScript',
+  'MongoDB',
+  'MySQL',
+  'NoSQL',
+  'OpenAPI',
+  'PostgreSQL',
+  'SQLite',
+  'TypeScript',
+  'WebGL',
+  'WebRTC',
+  'YouTube',
+  // Apple
+  'iCloud',
+  'iOS',
+  'iPad',
+  'iPadOS',
+  'iPhone',
+  'macOS',
+  'tvOS',
+  'watchOS',
+];
+
+/**
+ * Lowercased acronyms, longest first so `HTTPS` wins over `HTTP`
+ */
+let acronyms: string[] = [];
+
+/**
+ * Add acronyms or brand names to the dictionary used to split names into words
+ */
+export function registerAcronyms(words: string[]): void {
+  acronyms = [...new Set([...acronyms, ...words.map((word) => word.toLowerCase())])]
+    .filter((word) => word.length > 0)
+    .sort((a, b) => b.length - a.length);
+}
+
+registerAcronyms(DEFAULT_ACRONYMS);
+
+function isUpperCase(character: string | undefined): boolean {
+  return character !== undefined && character >= 'A' && character <= 'Z';
+}
+
+function isLowerCase(character: string | undefined): boolean {
+  return character !== undefined && character >= 'a' && character <= 'z';
+}
+
+function isDigit(character: string | undefined): boolean {
+  return character !== undefined && character >= '0' && character <= '9';
+}
+
+/**
+ * Check whether a new word starts at `index` by the camelCase rules: an uppercase letter
+ * after a lowercase letter or digit, or the last uppercase letter of a run followed by a
+ * lowercase letter (`HTML|Element`)
+ */
+function isWordBoundary(input: string, index: number): boolean {
+  const previous = input[index - 1];
+  const current = input[index];
+
+  return (
+    ((isLowerCase(previous) || isDigit(previous)) && isUpperCase(current)) ||
+    (isUpperCase(previous) && isUpperCase(current) && isLowerCase(input[index + 1]))
+  );
+}
+
+/**
+ * Find the end of an acronym starting at `start`, including the digits following it. An
+ * acronym must end where a word ends anyway, or inside a run of uppercase letters when
+ * the rest of the run starts with another acronym (`XML|HTTPS|Connection`), so `JS` is
+ * never split off `JSON`.
+ */
+function matchAcronym(input: string, lowerCaseInput: string, start: number): number | undefined {
+  for (const acronym of acronyms) {
+    if (!lowerCaseInput.startsWith(acronym, start)) {
+      continue;
+    }
+
+    let end = start + acronym.length;
+    const isRunSplit =
+      isUpperCase(input[end - 1]) && isUpperCase(input[end]) && matchAcronym(input, lowerCaseInput, end) !== undefined;
+
+    if (end === input.length || isDigit(input[end]) || isWordBoundary(input, end) || isRunSplit) {
+      while (isDigit(input[end])) {
+        end++;
+      }
+
+      return end;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Split a camelCase or PascalCase name into its words, keeping known acronyms together.
+ * Consecutive uppercase letters are kept together as one word unless they are made of
+ * acronyms, digits stay with the word before them.
+ *
+ * @example
+ * splitCamelCase('getHTMLElement') // ['get', 'HTML', 'Element']
+ * splitCamelCase('XMLHTTPSConnection') // ['XML', 'HTTPS', 'Connection']
+ * splitCamelCase('OAuth2Provider') // ['OAuth2', 'Provider']
+ */
+export function splitCamelCase(input: string): string[] {
+  const lowerCaseInput = input.toLowerCase();
+  const words: string[] = [];
+
+  for (let start = 0; start < input.length; ) {
+    let end = matchAcronym(input, lowerCaseInput, start);
+
+    if (end === undefined) {
+      end = start + 1;
+      while (end < input.length && !isWordBoundary(input, end)) {
+        end++;
+      }
+    }
+
+    words.push(input.slice(start, end));
+    start = end;
+  }
+
+  return words;
+}
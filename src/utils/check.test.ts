@@ -0,0 +1,94 @@
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+
+import { checkDirectories, formatCheckResult } from './check.js';
+import { getNamingStrategy } from './naming.js';
+import {
+  type WriteFile,
+  createTemporaryDirectory,
+  removeTemporaryDirectory,
+} from '../__fixtures__/temporary-directory.js';
+
+let root: string;
+let writeFile: WriteFile;
+
+function toCwdRelative(relativePath: string): string {
+  return path.relative(process.cwd(), path.join(root, relativePath)).split(path.sep).join('/');
+}
+
+beforeEach(() => {
+  ({ root, writeFile } = createTemporaryDirectory());
+});
+
+afterEach(() => {
+  removeTemporaryDirectory(root);
+});
+
+describe('checkDirectories', () => {
+  test('reports current and suggested paths of every violation', async () => {
+    writeFile('Components/UserCard.tsx');
+    writeFile('Components/button.tsx');
+    writeFile('utils.ts');
+
+    const result = await checkDirectories([root]);
+
+    expect(result.checkedItems).toBe(4);
+    expect(result.violations).toEqual([
+      { path: toCwdRelative('Components'), suggestedPath: toCwdRelative('components'), isDirectory: true },
+      {
+        path: toCwdRelative('Components/UserCard.tsx'),
+        suggestedPath: toCwdRelative('components/user-card.tsx'),
+        isDirectory: false,
+      },
+    ]);
+  });
+
+  test('reports nothing when everything follows the convention', async () => {
+    writeFile('components/user-card.tsx');
+
+    const { violations } = await checkDirectories([root]);
+
+    expect(violations).toEqual([]);
+  });
+
+  test('keeps index files when converting to PascalCase', async () => {
+    writeFile('components/button/index.ts');
+    writeFile('components/button/index.test.ts');
+    writeFile('components/button/button.tsx');
+
+    const { violations } = await checkDirectories([path.join(root, 'components')], {
+      namingStrategy: getNamingStrategy('pascal'),
+    });
+
+    expect(violations.map((violation) => violation.suggestedPath)).toEqual([
+      toCwdRelative('components/Button'),
+      toCwdRelative('components/Button/Button.tsx'),
+    ]);
+  });
+});
+
+describe('formatCheckResult', () => {
+  const result = {
+    namingStrategy: 'kebab',
+    checkedItems: 2,
+    violations: [{ path: 'src/UserCard.tsx', suggestedPath: 'src/user-card.tsx', isDirectory: false }],
+  };
+
+  test('formats violations as text', () => {
+    expect(formatCheckResult(result, 'text')).toContain('[FILE] src/UserCard.tsx => src/user-card.tsx');
+  });
+
+  test('formats violations as SARIF results', () => {
+    const sarif = JSON.parse(formatCheckResult(result, 'sarif'));
+
+    expect(sarif.version).toBe('2.1.0');
+    expect(sarif.runs[0].results).toEqual([
+      {
+        ruleId: 'naming-convention',
+        level: 'error',
+        message: { text: 'src/UserCard.tsx does not follow kebab-case, rename it to src/user-card.tsx' },
+        locations: [{ physicalLocation: { artifactLocation: { uri: 'src/UserCard.tsx', uriBaseId: '%SRCROOT%' } } }],
+      },
+    ]);
+  });
+});
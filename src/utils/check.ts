@@ -0,0 +1,131 @@
+import path from 'node:path';
+
+import { type ScanOptions, getItemsToRename, scanDirectories } from './file-scanner.js';
+import { getNamingStrategy } from './naming.js';
+import { createCurrentPathLookup } from './rename-map.js';
+
+/**
+ * Output formats of `baptist check`: human-readable text, JSON, or SARIF for code
+ * scanning annotations
+ */
+export type CheckFormat = 'text' | 'json' | 'sarif';
+
+export const CHECK_FORMATS: CheckFormat[] = ['text', 'json', 'sarif'];
+
+/**
+ * ID of the SARIF rule every violation is reported under
+ */
+const SARIF_RULE_ID = 'naming-convention';
+
+export interface CheckViolation {
+  /** Current path, relative to the working directory */
+  path: string;
+  /** Path the item would have after renaming everything, relative to the working directory */
+  suggestedPath: string;
+  isDirectory: boolean;
+}
+
+export interface CheckResult {
+  namingStrategy: string;
+  checkedItems: number;
+  violations: CheckViolation[];
+}
+
+function toPosixPath(itemPath: string): string {
+  return path.relative(process.cwd(), path.resolve(itemPath)).split(path.sep).join('/');
+}
+
+/**
+ * Find every file and directory that does not follow the naming convention, without
+ * renaming anything
+ */
+export async function checkDirectories(directories: string[], options: ScanOptions = {}): Promise<CheckResult> {
+  const namingStrategy = options.namingStrategy ?? getNamingStrategy();
+  const scanResult = await scanDirectories(directories, { ...options, namingStrategy });
+  const getCurrentPath = createCurrentPathLookup(scanResult.items);
+
+  return {
+    namingStrategy: namingStrategy.name,
+    checkedItems: scanResult.totalItems,
+    violations: getItemsToRename(scanResult).map((item) => ({
+      path: toPosixPath(getCurrentPath(item.originalPath)),
+      suggestedPath: toPosixPath(item.newPath),
+      isDirectory: item.isDirectory,
+    })),
+  };
+}
+
+function formatText(result: CheckResult): string {
+  if (result.violations.length === 0) {
+    return `✅ All ${result.checkedItems} files and directories follow ${result.namingStrategy}-case.`;
+  }
+
+  return [
+    ...result.violations.map(
+      (violation) => `${violation.isDirectory ? '[DIR] ' : '[FILE]'} ${violation.path} => ${violation.suggestedPath}`
+    ),
+    '',
+    `❌ Found ${result.violations.length} of ${result.checkedItems} files and directories not following ${result.namingStrategy}-case.`,
+    'Run `baptist <directories...>` to rename them.',
+  ].join('\n');
+}
+
+/**
+ * Build a SARIF 2.1.0 log, as consumed by code scanning tools such as GitHub code scanning
+ */
+function formatSarif(result: CheckResult): string {
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'baptist',
+            rules: [
+              {
+                id: SARIF_RULE_ID,
+                name: 'NamingConvention',
+                shortDescription: { text: 'File and directory names follow the naming convention' },
+                defaultConfiguration: { level: 'error' },
+              },
+            ],
+          },
+        },
+        results: result.violations.map((violation) => ({
+          ruleId: SARIF_RULE_ID,
+          level: 'error',
+          message: {
+            text: `${violation.path} does not follow ${result.namingStrategy}-case, rename it to ${violation.suggestedPath}`,
+          },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: violation.path, uriBaseId: '%SRCROOT%' },
+              },
+            },
+          ],
+        })),
+      },
+    ],
+  };
+
+  return JSON.stringify(sarif, undefined, 2);
+}
+
+/**
+ * Format the result of a check for printing
+ */
+export function formatCheckResult(result: CheckResult, format: CheckFormat): string {
+  switch (format) {
+    case 'json': {
+      return JSON.stringify(result, undefined, 2);
+    }
+    case 'sarif': {
+      return formatSarif(result);
+    }
+    default: {
+      return formatText(result);
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+
+import { planConfigUpdates } from './config-references.js';
+import { getItemsToRename, scanDirectories } from './file-scanner.js';
+import { planImportUpdates } from './import-updater.js';
+import { createRenameMap } from './rename-map.js';
+import {
+  type WriteFile,
+  createTemporaryDirectory,
+  removeTemporaryDirectory,
+} from '../__fixtures__/temporary-directory.js';
+
+let root: string;
+let writeFile: WriteFile;
+let previousWorkingDirectory: string;
+
+async function planUpdates(withImportUpdates = false) {
+  const renameMap = createRenameMap(getItemsToRename(await scanDirectories(['src'])));
+  const importUpdates = withImportUpdates ? await planImportUpdates(['src'], { renameMap }) : [];
+  const { updates, unsafeReferences } = await planConfigUpdates(['src'], { renameMap, importUpdates });
+
+  return {
+    files: Object.fromEntries(
+      updates.map((update) => [update.filePath.split(path.sep).join('/'), update.updatedContent])
+    ),
+    unsafeReferences,
+  };
+}
+
+beforeEach(() => {
+  ({ root, writeFile } = createTemporaryDirectory());
+  previousWorkingDirectory = process.cwd();
+  process.chdir(root);
+});
+
+afterEach(() => {
+  process.chdir(previousWorkingDirectory);
+  removeTemporaryDirectory(root);
+});
+
+describe('planConfigUpdates', () => {
+  test('rewrites path fields of package.json, leaving other fields and keys alone', async () => {
+    writeFile('src/MainEntry.ts', 'export {};');
+    writeFile('src/Cli/RunCommand.ts', 'export {};');
+    writeFile(
+      'package.json',
+      JSON.stringify(
+        {
+          name: 'MainEntry',
+          main: './src/MainEntry.ts',
+          bin: { run: 'src/Cli/RunCommand.ts' },
+          exports: { './MainEntry': './src/MainEntry.ts' },
+          files: ['src/Cli'],
+          description: 'src/MainEntry.ts',
+        },
+        undefined,
+        2
+      )
+    );
+
+    const { files } = await planUpdates();
+
+    expect(JSON.parse(files['package.json'])).toEqual({
+      name: 'MainEntry',
+      main: './src/main-entry.ts',
+      bin: { run: 'src/cli/run-command.ts' },
+      exports: { './MainEntry': './src/main-entry.ts' },
+      files: ['src/cli'],
+      description: 'src/MainEntry.ts',
+    });
+  });
+
+  test('rewrites tsconfig paths and keeps comments and formatting', async () => {
+    writeFile('src/Shared/index.ts', 'export {};');
+    writeFile(
+      'tsconfig.json',
+      [
+        '{',
+        '  // Shared code is compiled separately',
+        '  "compilerOptions": { "paths": { "@shared/*": ["./src/Shared/*"] } },',
+        '  "include": ["src/Shared", "src/**/*.ts"],',
+        '}',
+      ].join('\n')
+    );
+
+    const { files } = await planUpdates();
+
+    expect(files['tsconfig.json']).toBe(
+      [
+        '{',
+        '  // Shared code is compiled separately',
+        '  "compilerOptions": { "paths": { "@shared/*": ["./src/shared/*"] } },',
+        '  "include": ["src/shared", "src/**/*.ts"],',
+        '}',
+      ].join('\n')
+    );
+  });
+
+  test('rewrites dotfile configs that the default excludes skip', async () => {
+    writeFile('src/Components/UserCard.ts', 'export {};');
+    writeFile('.eslintrc.json', JSON.stringify({ ignorePatterns: ['src/Components/UserCard.ts'] }));
+    writeFile('src/.babelrc', JSON.stringify({ only: ['./Components/UserCard.ts'] }));
+
+    const { files } = await planUpdates();
+
+    expect(files['.eslintrc.json']).toBe(JSON.stringify({ ignorePatterns: ['src/components/user-card.ts'] }));
+    expect(files['src/.babelrc']).toBe(JSON.stringify({ only: ['./components/user-card.ts'] }));
+  });
+
+  test('rewrites path literals of config modules but not their imports', async () => {
+    writeFile('src/TestSetup.ts', 'export {};');
+    writeFile(
+      'vitest.config.ts',
+      [
+        "import { defineConfig } from 'vitest/config';",
+        '',
+        "export default defineConfig({ test: { setupFiles: ['./src/TestSetup.ts'], environment: 'node' } });",
+      ].join('\n')
+    );
+
+    const { files } = await planUpdates();
+
+    expect(files['vitest.config.ts']).toBe(
+      [
+        "import { defineConfig } from 'vitest/config';",
+        '',
+        "export default defineConfig({ test: { setupFiles: ['./src/test-setup.ts'], environment: 'node' } });",
+      ].join('\n')
+    );
+  });
+
+  test('reports globs matching renamed files differently and paths built from several parts', async () => {
+    writeFile('src/Components/UserCard.tsx', 'export {};');
+    writeFile('src/Components/UserCard.test.tsx', 'export {};');
+    writeFile('package.json', JSON.stringify({ files: ['src/Components/[A-Z]*.tsx'] }));
+    writeFile(
+      'jest.config.js',
+      "const path = require('node:path');\nmodule.exports = { roots: [path.join(__dirname, 'src', 'Components')] };\n"
+    );
+
+    const { files, unsafeReferences } = await planUpdates();
+
+    expect(files['package.json']).toBeUndefined();
+    expect(files['jest.config.js']).toBeUndefined();
+    expect(unsafeReferences).toEqual([
+      'jest.config.js: "roots" builds the renamed path "src/Components" from several parts',
+      'package.json: "files" "src/Components/[A-Z]*.tsx" matches UserCard.test.tsx but not its new name',
+    ]);
+  });
+
+  test('updates config files on top of their planned import updates', async () => {
+    writeFile('src/Setup/GlobalSetup.ts', 'export {};');
+    writeFile(
+      'src/vitest.config.ts',
+      "import setup from './Setup/GlobalSetup';\nexport default { globalSetup: './Setup/GlobalSetup.ts' };\n"
+    );
+
+    const { files } = await planUpdates(true);
+
+    expect(Object.keys(files)).toEqual(['src/vitest.config.ts']);
+    expect(files['src/vitest.config.ts']).toBe(
+      "import setup from './setup/global-setup';\nexport default { globalSetup: './setup/global-setup.ts' };\n"
+    );
+  });
+});
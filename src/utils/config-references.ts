@@ -0,0 +1,472 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import picomatch from 'picomatch';
+import ts from 'typescript';
+
+import { type FileIndex, createFileIndex, getIndexedEntries, listIndexedDirectories } from './file-list.js';
+import { type ImportUpdate, updateImportsInFile } from './import-updater.js';
+import { type ModuleSpecifier, replaceModuleSpecifiers } from './module-specifiers.js';
+import type { PathFilter } from './path-filter.js';
+import { type RenameMap, getRenamedPath } from './rename-map.js';
+import { findWorkspace } from './workspaces.js';
+
+export interface ConfigUpdateOptions {
+  renameMap: RenameMap;
+  /** Decides which files are never rewritten, defaults to the default excludes */
+  pathFilter?: PathFilter;
+  /** Import updates planned so far, config files get their references updated on top of them */
+  importUpdates?: ImportUpdate[];
+  /** Index of the directory tree, shared with the other steps of a run */
+  fileIndex?: FileIndex;
+}
+
+export interface ConfigUpdateResult {
+  /** The given import updates, with the updates of config files merged in */
+  updates: ImportUpdate[];
+  /** References that point at renamed paths but could not be updated safely */
+  unsafeReferences: string[];
+}
+
+/**
+ * Fields of package.json holding paths, along with `exports` and `workspaces`
+ */
+const PACKAGE_PATH_FIELDS = new Set([
+  'main',
+  'module',
+  'types',
+  'typings',
+  'source',
+  'style',
+  'svelte',
+  'browser',
+  'unpkg',
+  'jsdelivr',
+  'bin',
+  'files',
+  'exports',
+  'workspaces',
+]);
+
+/**
+ * Top-level fields of tsconfig.json and compiler options holding paths
+ */
+const TSCONFIG_PATH_FIELDS = new Set(['extends', 'files', 'include', 'exclude', 'references']);
+const TSCONFIG_PATH_OPTIONS = new Set([
+  'baseUrl',
+  'rootDir',
+  'rootDirs',
+  'outDir',
+  'declarationDir',
+  'typeRoots',
+  'paths',
+  'tsBuildInfoFile',
+]);
+
+/**
+ * Tool configs written as JS/TS modules, e.g. `vitest.config.ts` or `eslint.config.mjs`
+ */
+const MODULE_CONFIG_PATTERN =
+  /^(?:vite|vitest|vitest\.workspace|jest|eslint|webpack|rollup|tailwind|next|nuxt|svelte|astro|playwright|tsup|postcss|babel|prettier|stylelint)(?:\.config)?\.[cm]?[jt]s$|^\.eslintrc\.c?js$/;
+
+/**
+ * Tool configs written as JSON
+ */
+const JSON_CONFIG_PATTERN = /^(?:jest\.config|\.eslintrc|\.babelrc|\.swcrc|\.lintstagedrc)(?:\.json)?$/;
+
+const TSCONFIG_PATTERN = /^[jt]sconfig(?:\..+)?\.json$/;
+
+/**
+ * Characters that make a path a glob
+ */
+const GLOB_PATTERN = /[*?[\]{}]/;
+
+type ConfigKind = 'package' | 'tsconfig' | 'json' | 'module';
+
+function getConfigKind(filePath: string): ConfigKind | undefined {
+  const name = path.basename(filePath);
+
+  if (name === 'package.json') {
+    return 'package';
+  }
+
+  if (TSCONFIG_PATTERN.test(name)) {
+    return 'tsconfig';
+  }
+
+  if (JSON_CONFIG_PATTERN.test(name)) {
+    return 'json';
+  }
+
+  return MODULE_CONFIG_PATTERN.test(name) ? 'module' : undefined;
+}
+
+/**
+ * A string in a config file that may hold a path
+ */
+interface PathLiteral {
+  value: string;
+  /** Offsets of the string content, excluding the quotes */
+  start: number;
+  end: number;
+  /** Name of the field, for the report */
+  field: string;
+}
+
+function toPathLiteral(node: ts.StringLiteralLike, sourceFile: ts.SourceFile, field: string): PathLiteral {
+  return { value: node.text, start: node.getStart(sourceFile) + 1, end: node.end - 1, field };
+}
+
+/**
+ * Collect the string values of a JSON value, recursing into arrays and objects. Object
+ * keys are left alone, `exports` subpaths and `paths` patterns are not file paths.
+ */
+function collectJsonStrings(node: ts.Node, sourceFile: ts.SourceFile, field: string, literals: PathLiteral[]): void {
+  if (ts.isStringLiteral(node)) {
+    literals.push(toPathLiteral(node, sourceFile, field));
+  } else if (ts.isArrayLiteralExpression(node)) {
+    for (const element of node.elements) {
+      collectJsonStrings(element, sourceFile, field, literals);
+    }
+  } else if (ts.isObjectLiteralExpression(node)) {
+    for (const property of node.properties) {
+      if (ts.isPropertyAssignment(property)) {
+        collectJsonStrings(property.initializer, sourceFile, field, literals);
+      }
+    }
+  }
+}
+
+function getPropertyName(property: ts.ObjectLiteralElementLike): string | undefined {
+  return ts.isPropertyAssignment(property) && (ts.isStringLiteral(property.name) || ts.isIdentifier(property.name))
+    ? property.name.text
+    : undefined;
+}
+
+/**
+ * Find the path literals of a JSON config. package.json and tsconfig files only have
+ * their known path fields read, other tool configs every string value.
+ */
+function findJsonPathLiterals(content: string, filePath: string, kind: ConfigKind): PathLiteral[] {
+  const sourceFile = ts.parseJsonText(filePath, content);
+  const root = sourceFile.statements[0]?.expression;
+  const literals: PathLiteral[] = [];
+
+  if (!root || !ts.isObjectLiteralExpression(root)) {
+    return literals;
+  }
+
+  for (const property of root.properties) {
+    const name = getPropertyName(property);
+    if (!name || !ts.isPropertyAssignment(property)) {
+      continue;
+    }
+
+    if (kind === 'json' || (kind === 'package' ? PACKAGE_PATH_FIELDS : TSCONFIG_PATH_FIELDS).has(name)) {
+      collectJsonStrings(property.initializer, sourceFile, name, literals);
+    } else if (
+      kind === 'tsconfig' &&
+      name === 'compilerOptions' &&
+      ts.isObjectLiteralExpression(property.initializer)
+    ) {
+      for (const option of property.initializer.properties) {
+        const optionName = getPropertyName(option);
+        if (optionName && TSCONFIG_PATH_OPTIONS.has(optionName) && ts.isPropertyAssignment(option)) {
+          collectJsonStrings(option.initializer, sourceFile, `compilerOptions.${optionName}`, literals);
+        }
+      }
+    }
+  }
+
+  // `extends` may name a package instead of a file
+  return literals.filter(
+    ({ value, field }) => field !== 'extends' || value.startsWith('./') || value.startsWith('../')
+  );
+}
+
+/**
+ * Get the name of the property a node is the value of, or that holds the array it is in
+ */
+function getContainingField(node: ts.Node): string {
+  for (let current = node.parent; current; current = current.parent) {
+    if (ts.isPropertyAssignment(current)) {
+      return getPropertyName(current) ?? 'value';
+    }
+  }
+
+  return 'value';
+}
+
+/**
+ * Find the string literals of a JS/TS config module that may hold paths. Module specifiers
+ * are left to the import updater. Paths built from several strings or with substitutions
+ * are returned as `dynamic`, to be checked and reported.
+ */
+function findModulePathLiterals(
+  content: string,
+  filePath: string
+): { literals: PathLiteral[]; dynamic: { text: string; field: string }[] } {
+  const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true);
+  const literals: PathLiteral[] = [];
+  const dynamic: { text: string; field: string }[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) {
+      return;
+    }
+
+    if (ts.isCallExpression(node)) {
+      const isModuleCall =
+        node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+        (ts.isIdentifier(node.expression) && node.expression.text === 'require');
+      if (isModuleCall) {
+        return;
+      }
+
+      // `path.join(__dirname, 'src', 'Components')`
+      const stringArguments = node.arguments.filter((argument) => ts.isStringLiteralLike(argument));
+      if (stringArguments.length > 1) {
+        dynamic.push({
+          text: stringArguments.map((argument) => (argument as ts.StringLiteralLike).text).join('/'),
+          field: getContainingField(node),
+        });
+      }
+    }
+
+    const isPropertyName =
+      node.parent !== undefined && ts.isPropertyAssignment(node.parent) && node.parent.name === node;
+    if (ts.isStringLiteralLike(node) && !isPropertyName) {
+      literals.push(toPathLiteral(node, sourceFile, getContainingField(node)));
+    } else if (ts.isTemplateExpression(node)) {
+      // `${__dirname}/src/Components`, with the substitutions left out
+      const text = node.head.text + node.templateSpans.map((span) => span.literal.text).join('');
+      dynamic.push({ text: text.replace(/^\/+/, ''), field: getContainingField(node) });
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+
+  return { literals, dynamic };
+}
+
+type PathValueUpdate = { value: string } | { unsafe: string } | undefined;
+
+/**
+ * Compute the new value of a path or glob relative to a config file. Globs have the part
+ * before their first wildcard updated, and are reported when the rest of the glob would
+ * match the renamed paths differently. Returns `undefined` for values that do not change.
+ */
+function updatePathValue(value: string, baseDirectory: string, renameMap: RenameMap): PathValueUpdate {
+  const [, negation, prefix, pathPart] = /^(!?)(<rootDir>\/|\.\/)?(.*)$/.exec(value) ?? [];
+  if (!pathPart || path.isAbsolute(pathPart) || /^[a-z][\d+.a-z-]*:/i.test(pathPart)) {
+    return undefined;
+  }
+
+  const segments = pathPart.split('/');
+  const globIndex = segments.findIndex((segment) => GLOB_PATTERN.test(segment));
+  const staticSegments = globIndex === -1 ? segments : segments.slice(0, globIndex);
+  const globSegments = globIndex === -1 ? [] : segments.slice(globIndex);
+
+  const staticPath = path.resolve(baseDirectory, ...staticSegments);
+  const renamedStaticPath = getRenamedPath(renameMap, staticPath);
+
+  if (globSegments.length > 0) {
+    // Renamed paths below the static part must match the rest of the glob as they did before
+    let isGlobMatch: (relativePath: string) => boolean;
+    try {
+      isGlobMatch = picomatch(globSegments.join('/'), { dot: true });
+    } catch {
+      return undefined;
+    }
+
+    for (const [originalPath, newPath] of renameMap) {
+      if (!originalPath.startsWith(staticPath + path.sep)) {
+        continue;
+      }
+
+      const originalRelativePath = path.relative(staticPath, originalPath).split(path.sep).join('/');
+      const newRelativePath = path.relative(renamedStaticPath, newPath).split(path.sep).join('/');
+      if (isGlobMatch(originalRelativePath) !== isGlobMatch(newRelativePath)) {
+        return { unsafe: `"${value}" matches ${path.basename(originalPath)} but not its new name` };
+      }
+    }
+  }
+
+  if (renamedStaticPath === staticPath) {
+    return undefined;
+  }
+
+  const newStaticPart = path.relative(baseDirectory, renamedStaticPath).split(path.sep).join('/');
+  const trailingSlash = pathPart.endsWith('/') && globSegments.length === 0 ? '/' : '';
+
+  return {
+    value:
+      negation +
+      (prefix ?? '') +
+      [newStaticPart, ...globSegments].filter((part) => part !== '').join('/') +
+      trailingSlash,
+  };
+}
+
+/**
+ * Check whether a string of a generic tool config looks like a path: it contains a slash
+ * or names an existing file or directory next to the config
+ */
+function looksLikePath(value: string, baseDirectory: string): boolean {
+  return value.includes('/') || (value !== '' && fs.existsSync(path.join(baseDirectory, value)));
+}
+
+/**
+ * Find the config files to check: well-known files inside the processed directories, in
+ * the directories above them up to the working directory, and at the root of their
+ * workspace and its packages
+ */
+async function findConfigFiles(directories: string[], fileIndex: FileIndex): Promise<string[]> {
+  const candidateDirectories = new Set<string>();
+  const workingDirectory = process.cwd();
+
+  for (const directory of directories) {
+    const absoluteDirectory = path.resolve(directory);
+    const isInsideWorkingDirectory =
+      absoluteDirectory === workingDirectory || absoluteDirectory.startsWith(workingDirectory + path.sep);
+
+    for (let current = absoluteDirectory; ; current = path.dirname(current)) {
+      candidateDirectories.add(current);
+      if (!isInsideWorkingDirectory || current === workingDirectory) {
+        break;
+      }
+    }
+
+    const workspace = await findWorkspace(directory, fileIndex);
+    if (workspace) {
+      candidateDirectories.add(workspace.rootDirectory);
+      for (const workspacePackage of workspace.packages) {
+        candidateDirectories.add(workspacePackage.directory);
+      }
+    }
+  }
+
+  const files = new Set<string>();
+  for (const directory of candidateDirectories) {
+    for (const entry of await fs.promises.readdir(directory, { withFileTypes: true })) {
+      const filePath = path.join(directory, entry.name);
+      if (entry.isFile() && getConfigKind(filePath)) {
+        files.add(filePath);
+      }
+    }
+  }
+
+  // Nested packages and configs inside the processed directories. Tool configs are
+  // commonly dotfiles, which the default excludes skip.
+  for (const directory of directories) {
+    for (const indexedDirectory of await listIndexedDirectories(fileIndex, directory)) {
+      for (const entry of getIndexedEntries(fileIndex, indexedDirectory)) {
+        const filePath = path.resolve(indexedDirectory, entry.name);
+        if (!entry.isDirectory && getConfigKind(filePath)) {
+          files.add(filePath);
+        }
+      }
+    }
+  }
+
+  return [...files];
+}
+
+/**
+ * Plan the updates of path references in package.json, tsconfig files and tool configs
+ * (vitest, jest, eslint, ...) that point at renamed paths. Each file is understood
+ * structurally: JSON with comments, and string literals of JS/TS config modules.
+ * References that cannot be updated safely, such as globs matching renamed files
+ * differently or paths built from several strings, are reported instead. Must be called
+ * before the renames are applied.
+ */
+export async function planConfigUpdates(
+  directories: string[],
+  options: ConfigUpdateOptions
+): Promise<ConfigUpdateResult> {
+  const { renameMap, importUpdates = [] } = options;
+  const fileIndex = options.fileIndex ?? createFileIndex({ pathFilter: options.pathFilter });
+  const { pathFilter } = fileIndex;
+  const updatesByFile = new Map(importUpdates.map((update) => [path.resolve(update.originalFilePath), update]));
+  const updates: ImportUpdate[] = [];
+  const unsafeReferences: string[] = [];
+
+  for (const filePath of await findConfigFiles(directories, fileIndex)) {
+    const kind = getConfigKind(filePath);
+    const absoluteFilePath = path.resolve(filePath);
+    const displayPath = path.relative(process.cwd(), absoluteFilePath);
+    // Tool configs are commonly dotfiles, which only the default excludes leave out
+    if (!kind || pathFilter.isExcludedByConfig(absoluteFilePath, false)) {
+      continue;
+    }
+
+    // Imports of config modules outside the processed directories are updated here as well
+    const previousUpdate =
+      updatesByFile.get(absoluteFilePath) ??
+      (kind === 'module' ? await updateImportsInFile(displayPath, renameMap) : undefined);
+    const content = previousUpdate?.updatedContent ?? (await fs.promises.readFile(absoluteFilePath, 'utf8'));
+    const baseDirectory = path.dirname(absoluteFilePath);
+
+    const { literals, dynamic } =
+      kind === 'module'
+        ? findModulePathLiterals(content, filePath)
+        : { literals: findJsonPathLiterals(content, filePath, kind), dynamic: [] };
+
+    const replacements: ModuleSpecifier[] = [];
+    const newValues = new Map<number, string>();
+
+    for (const { value, start, end, field } of literals) {
+      if ((kind === 'json' || kind === 'module') && !looksLikePath(value, baseDirectory)) {
+        continue;
+      }
+
+      const update = updatePathValue(value, baseDirectory, renameMap);
+      if (update && 'unsafe' in update) {
+        unsafeReferences.push(`${displayPath}: "${field}" ${update.unsafe}`);
+      } else if (update && content.slice(start, end) === value) {
+        replacements.push({ value, start, end, kind: 'url' });
+        newValues.set(start, update.value);
+      } else if (update) {
+        unsafeReferences.push(`${displayPath}: "${field}" entry "${value}" contains escapes`);
+      }
+    }
+
+    for (const { text, field } of dynamic) {
+      const update = updatePathValue(text, baseDirectory, renameMap);
+      if (update) {
+        unsafeReferences.push(`${displayPath}: "${field}" builds the renamed path "${text}" from several parts`);
+      }
+    }
+
+    const updatedContent = replaceModuleSpecifiers(
+      content,
+      replacements,
+      (value, specifier) => newValues.get(specifier.start) ?? value
+    );
+
+    if (updatedContent === content) {
+      // Keep the import update of a config module outside the processed directories
+      if (previousUpdate && !updatesByFile.has(absoluteFilePath)) {
+        updates.push(previousUpdate);
+      }
+      continue;
+    }
+
+    updatesByFile.delete(absoluteFilePath);
+    updates.push({
+      originalFilePath: previousUpdate?.originalFilePath ?? displayPath,
+      filePath: previousUpdate?.filePath ?? path.relative(process.cwd(), getRenamedPath(renameMap, absoluteFilePath)),
+      originalContent: previousUpdate?.originalContent ?? content,
+      updatedContent,
+    });
+  }
+
+  return {
+    updates: [
+      ...importUpdates.filter((update) => updatesByFile.has(path.resolve(update.originalFilePath))),
+      ...updates,
+    ],
+    unsafeReferences: [...new Set(unsafeReferences)],
+  };
+}
@@ -0,0 +1,59 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+
+import { loadConfig } from './config.js';
+import {
+  type WriteFile,
+  createTemporaryDirectory,
+  removeTemporaryDirectory,
+} from '../__fixtures__/temporary-directory.js';
+
+let root: string;
+let writeFile: WriteFile;
+
+beforeEach(() => {
+  ({ root, writeFile } = createTemporaryDirectory());
+});
+
+afterEach(() => {
+  removeTemporaryDirectory(root);
+});
+
+describe('loadConfig', () => {
+  test('returns an empty config without a config file', async () => {
+    expect(await loadConfig(undefined, root)).toEqual({ config: {}, rootDirectory: root });
+  });
+
+  test('reads baptist.config.json', async () => {
+    writeFile('baptist.config.json', JSON.stringify({ case: 'snake', exclude: ['generated'] }));
+
+    const { config } = await loadConfig(undefined, root);
+    expect(config).toEqual({ case: 'snake', exclude: ['generated'] });
+  });
+
+  test('reads the baptist key of package.json', async () => {
+    writeFile('package.json', JSON.stringify({ name: 'fixture', baptist: { onConflict: 'skip' } }));
+
+    const { config, configPath } = await loadConfig(undefined, root);
+    expect(config).toEqual({ onConflict: 'skip' });
+    expect(configPath).toBe(path.join(root, 'package.json'));
+  });
+
+  test('transpiles TypeScript configs with custom naming functions', async () => {
+    writeFile(
+      'baptist.config.ts',
+      'const config: { case: (name: string) => string } = { case: (name) => name.toUpperCase() };\nexport default config;\n'
+    );
+
+    const { config } = await loadConfig(undefined, root);
+    expect(typeof config.case === 'function' && config.case('userCard')).toBe('USERCARD');
+    expect(fs.readdirSync(root)).toEqual(['baptist.config.ts']);
+  });
+
+  test('rejects invalid configs', async () => {
+    writeFile('baptist.config.json', JSON.stringify({ include: 'src' }));
+
+    await expect(loadConfig(undefined, root)).rejects.toThrow('"include" must be an array of strings');
+  });
+});
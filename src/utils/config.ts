@@ -0,0 +1,236 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import ts from 'typescript';
+
+import { CONFLICT_RESOLUTIONS, type ConflictResolution } from './conflicts.js';
+import { LOG_FORMATS, type LogFormat } from './logger.js';
+import { PRESET_NAMES } from './presets.js';
+
+/**
+ * Config files looked up in the working directory, in order
+ */
+export const CONFIG_FILE_NAMES = [
+  'baptist.config.json',
+  'baptist.config.js',
+  'baptist.config.mjs',
+  'baptist.config.ts',
+];
+
+export interface BaptistConfig {
+  /** Globs limiting which files and directories get renamed */
+  include?: string[];
+  /** Globs of paths that are never renamed or rewritten */
+  exclude?: string[];
+  /** Globs of paths that keep their name, in addition to the default protected names */
+  protect?: string[];
+  /** Framework presets whose naming rules are followed, e.g. `"next"` */
+  preset?: string | string[];
+  /** File extensions the import updater rewrites, e.g. `[".ts", ".tsx"]` */
+  extensions?: string[];
+  /** Acronyms and brand names kept together as one word, in addition to the built-in ones, e.g. `["SaaS"]` */
+  acronyms?: string[];
+  /** Name of a naming strategy, or a custom conversion function (JS/TS configs only) */
+  case?: string | ((name: string) => string);
+  force?: boolean;
+  log?: boolean;
+  logFormat?: LogFormat;
+  /** Path of the log file, relative to the config */
+  logFile?: string;
+  logAppend?: boolean;
+  /** Commit the renames and the updated files as two separate commits */
+  commit?: boolean;
+  /** Message of the rename commit, `{count}` and `{case}` are filled in */
+  commitMessage?: string;
+  /** Message of the commit updating the references */
+  contentCommitMessage?: string;
+  dryRun?: boolean;
+  interactive?: boolean;
+  onConflict?: ConflictResolution;
+  /** Bundler-style import aliases such as `{ "@": "./src" }` */
+  aliases?: Record<string, string>;
+}
+
+export interface LoadedConfig {
+  config: BaptistConfig;
+  /** Path of the file the config was read from, if any */
+  configPath?: string;
+  /** Directory the config's globs and aliases are relative to */
+  rootDirectory: string;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((entry) => typeof entry === 'string');
+}
+
+/**
+ * Check that a loaded config has the expected shape
+ */
+function validateConfig(config: unknown, configPath: string): BaptistConfig {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid baptist config in ${configPath}: ${reason}`);
+  };
+
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    return fail('expected an object');
+  }
+
+  const {
+    include,
+    exclude,
+    protect,
+    preset,
+    extensions,
+    acronyms,
+    case: caseOption,
+    force,
+    log,
+    logFormat,
+    logFile,
+    logAppend,
+    commit,
+    commitMessage,
+    contentCommitMessage,
+    dryRun,
+    interactive,
+    onConflict,
+    aliases,
+  } = config as Record<string, unknown>;
+
+  for (const [key, value] of Object.entries({ include, exclude, protect, extensions, acronyms })) {
+    if (value !== undefined && !isStringArray(value)) {
+      fail(`"${key}" must be an array of strings`);
+    }
+  }
+
+  for (const [key, value] of Object.entries({ force, log, logAppend, commit, dryRun, interactive })) {
+    if (value !== undefined && typeof value !== 'boolean') {
+      fail(`"${key}" must be a boolean`);
+    }
+  }
+
+  if (caseOption !== undefined && typeof caseOption !== 'string' && typeof caseOption !== 'function') {
+    fail('"case" must be the name of a naming convention or a function');
+  }
+
+  const presetNames = typeof preset === 'string' ? [preset] : preset;
+  if (
+    presetNames !== undefined &&
+    (!isStringArray(presetNames) || !presetNames.every((name) => PRESET_NAMES.includes(name.toLowerCase())))
+  ) {
+    fail(`"preset" must be one or more of ${PRESET_NAMES.join(', ')}`);
+  }
+
+  if (logFormat !== undefined && !LOG_FORMATS.includes(logFormat as LogFormat)) {
+    fail(`"logFormat" must be one of ${LOG_FORMATS.join(', ')}`);
+  }
+
+  if (logFile !== undefined && typeof logFile !== 'string') {
+    fail('"logFile" must be a path');
+  }
+
+  for (const [key, value] of Object.entries({ commitMessage, contentCommitMessage })) {
+    if (value !== undefined && typeof value !== 'string') {
+      fail(`"${key}" must be a string`);
+    }
+  }
+
+  if (onConflict !== undefined && !CONFLICT_RESOLUTIONS.includes(onConflict as ConflictResolution)) {
+    fail(`"onConflict" must be one of ${CONFLICT_RESOLUTIONS.join(', ')}`);
+  }
+
+  if (
+    aliases !== undefined &&
+    (typeof aliases !== 'object' ||
+      aliases === null ||
+      !Object.values(aliases).every((target) => typeof target === 'string'))
+  ) {
+    fail('"aliases" must map alias names to paths');
+  }
+
+  return config as BaptistConfig;
+}
+
+/**
+ * Import a JavaScript or TypeScript config module. TypeScript configs are transpiled to a
+ * temporary module next to the original, so relative imports keep working.
+ */
+async function importConfigModule(configPath: string): Promise<unknown> {
+  let modulePath = configPath;
+
+  if (configPath.endsWith('.ts')) {
+    const { outputText } = ts.transpileModule(fs.readFileSync(configPath, 'utf8'), {
+      compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+      fileName: configPath,
+    });
+
+    modulePath = path.join(path.dirname(configPath), `.${path.basename(configPath)}.${process.pid}.mjs`);
+    fs.writeFileSync(modulePath, outputText, 'utf8');
+  }
+
+  try {
+    const module = (await import(pathToFileURL(modulePath).href)) as { default?: unknown };
+    return module.default ?? module;
+  } finally {
+    if (modulePath !== configPath) {
+      fs.rmSync(modulePath, { force: true });
+    }
+  }
+}
+
+/**
+ * Read a config file, a JSON file or a JavaScript/TypeScript module with a default export
+ */
+export async function readConfigFile(configPath: string): Promise<BaptistConfig> {
+  const absolutePath = path.resolve(configPath);
+  if (!fs.existsSync(absolutePath)) {
+    throw new Error(`Config file does not exist: ${configPath}`);
+  }
+
+  let config: unknown;
+  try {
+    config = absolutePath.endsWith('.json')
+      ? JSON.parse(fs.readFileSync(absolutePath, 'utf8'))
+      : await importConfigModule(absolutePath);
+  } catch (error) {
+    throw new Error(`Failed to load config file ${configPath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  return validateConfig(config, configPath);
+}
+
+/**
+ * Load the project config: an explicit config file, else the first `baptist.config.*` in
+ * the working directory, else the `baptist` key of its package.json. Returns an empty
+ * config if there is none.
+ */
+export async function loadConfig(configPath?: string, cwd: string = process.cwd()): Promise<LoadedConfig> {
+  if (configPath) {
+    return {
+      config: await readConfigFile(configPath),
+      configPath,
+      rootDirectory: path.dirname(path.resolve(configPath)),
+    };
+  }
+
+  for (const fileName of CONFIG_FILE_NAMES) {
+    const candidatePath = path.join(cwd, fileName);
+    if (fs.existsSync(candidatePath)) {
+      return { config: await readConfigFile(candidatePath), configPath: candidatePath, rootDirectory: cwd };
+    }
+  }
+
+  const packageJsonPath = path.join(cwd, 'package.json');
+  if (fs.existsSync(packageJsonPath)) {
+    const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8')) as { baptist?: unknown };
+    if (packageJson.baptist !== undefined) {
+      return {
+        config: validateConfig(packageJson.baptist, packageJsonPath),
+        configPath: packageJsonPath,
+        rootDirectory: cwd,
+      };
+    }
+  }
+
+  return { config: {}, rootDirectory: cwd };
+}
@@ -0,0 +1,93 @@
+import { describe, expect, test } from 'vitest';
+
+import { detectConflicts, resolveConflicts } from './conflicts.js';
+import type { FileSystemItem } from '../types/index.js';
+
+function file(originalPath: string, newPath: string): FileSystemItem {
+  return { originalPath, newPath, isDirectory: false, needsRename: originalPath !== newPath };
+}
+
+function directory(originalPath: string, newPath: string): FileSystemItem {
+  return { originalPath, newPath, isDirectory: true, needsRename: originalPath !== newPath };
+}
+
+describe('detectConflicts', () => {
+  test('finds items renamed to the same target', () => {
+    const conflicts = detectConflicts([
+      directory('fixture/FooBar', 'fixture/foo-bar'),
+      directory('fixture/fooBar', 'fixture/foo-bar'),
+    ]);
+
+    expect(conflicts.map((conflict) => conflict.kind)).toEqual(['duplicate-target']);
+    expect(conflicts[0].targetPath).toBe('fixture/foo-bar');
+  });
+
+  test('finds renames onto existing untouched items', () => {
+    const conflicts = detectConflicts([
+      file('fixture/UserCard.tsx', 'fixture/user-card.tsx'),
+      file('fixture/user-card.tsx', 'fixture/user-card.tsx'),
+    ]);
+
+    expect(conflicts.map((conflict) => conflict.kind)).toEqual(['existing-target']);
+  });
+
+  test('finds targets that only differ in case', () => {
+    const conflicts = detectConflicts([
+      file('fixture/userCard.ts', 'fixture/UserCard.ts'),
+      file('fixture/usercard.ts', 'fixture/usercard.ts'),
+    ]);
+
+    expect(conflicts.map((conflict) => conflict.kind)).toEqual(['case-insensitive']);
+  });
+
+  test('finds leftover temporary paths', () => {
+    const conflicts = detectConflicts([file('fixture/Foo.ts.tmp-baptist', 'fixture/foo.ts.tmp-baptist')]);
+
+    expect(conflicts.map((conflict) => conflict.kind)).toEqual(['leftover-temp']);
+  });
+
+  test('ignores conflicts that exist without any rename', () => {
+    expect(
+      detectConflicts([file('fixture/README.md', 'fixture/README.md'), file('fixture/readme.md', 'fixture/readme.md')])
+    ).toEqual([]);
+  });
+});
+
+describe('resolveConflicts', () => {
+  test('skips conflicting renames and keeps children consistent', () => {
+    const result = resolveConflicts(
+      [
+        directory('fixture/FooBar', 'fixture/foo-bar'),
+        file('fixture/foo-bar/First.ts', 'fixture/foo-bar/first.ts'),
+        directory('fixture/fooBar', 'fixture/foo-bar'),
+        file('fixture/foo-bar/Second.ts', 'fixture/foo-bar/second.ts'),
+      ],
+      'skip'
+    );
+
+    expect(result.unresolved).toEqual([]);
+    expect(result.items.map((item) => item.newPath)).toEqual([
+      'fixture/foo-bar',
+      'fixture/foo-bar/first.ts',
+      'fixture/fooBar',
+      'fixture/fooBar/second.ts',
+    ]);
+    expect(result.items[3].originalPath).toBe('fixture/fooBar/Second.ts');
+    expect(result.resolved).toHaveLength(1);
+  });
+
+  test('suffixes conflicting renames', () => {
+    const result = resolveConflicts(
+      [file('fixture/UserCard.tsx', 'fixture/user-card.tsx'), file('fixture/user-card.tsx', 'fixture/user-card.tsx')],
+      'suffix'
+    );
+
+    expect(result.items.map((item) => item.newPath)).toEqual(['fixture/user-card-2.tsx', 'fixture/user-card.tsx']);
+  });
+
+  test('leaves leftover temporary paths unresolved', () => {
+    const result = resolveConflicts([file('fixture/Foo.ts.tmp-baptist', 'fixture/foo.ts.tmp-baptist')], 'skip');
+
+    expect(result.unresolved.map((conflict) => conflict.kind)).toEqual(['leftover-temp']);
+  });
+});
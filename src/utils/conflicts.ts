@@ -0,0 +1,202 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { TEMPORARY_SUFFIX, setItemTargetName } from './file-scanner.js';
+import { createCurrentPathLookup } from './rename-map.js';
+import type { FileSystemItem } from '../types/index.js';
+
+export type ConflictKind = 'duplicate-target' | 'existing-target' | 'case-insensitive' | 'leftover-temp';
+
+/**
+ * How conflicting renames are handled: stop before anything moves, leave the conflicting
+ * items under their current name, or give them a numbered suffix
+ */
+export type ConflictResolution = 'abort' | 'skip' | 'suffix';
+
+export const CONFLICT_RESOLUTIONS: ConflictResolution[] = ['abort', 'skip', 'suffix'];
+
+export interface Conflict {
+  kind: ConflictKind;
+  /** Path (after renames) the conflicting items end up at */
+  targetPath: string;
+  items: FileSystemItem[];
+  message: string;
+}
+
+export interface ConflictResolutionResult {
+  items: FileSystemItem[];
+  /** Human-readable description of every change made to resolve a conflict */
+  resolved: string[];
+  /** Conflicts that could not be resolved automatically */
+  unresolved: Conflict[];
+}
+
+/**
+ * Group items by a key, keeping only groups with more than one item
+ */
+function findGroups(items: FileSystemItem[], getKey: (item: FileSystemItem) => string): FileSystemItem[][] {
+  const groups = new Map<string, FileSystemItem[]>();
+
+  for (const item of items) {
+    const key = getKey(item);
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+
+  return [...groups.values()].filter((group) => group.length > 1);
+}
+
+function describeItems(items: FileSystemItem[]): string {
+  return items.map((item) => item.originalPath).join(', ');
+}
+
+/**
+ * Find every planned rename that would fail or overwrite something: several items mapping
+ * to the same target, targets that already exist outside the scan, targets that only
+ * differ in case (a conflict on case-insensitive filesystems), and temporary paths left
+ * behind by an interrupted run.
+ */
+export function detectConflicts(items: FileSystemItem[]): Conflict[] {
+  const conflicts: Conflict[] = [];
+  const renamedItems = items.filter((item) => item.needsRename);
+
+  const getCurrentPath = createCurrentPathLookup(items);
+  const scannedPaths = new Set(items.map((item) => getCurrentPath(item.originalPath).toLowerCase()));
+
+  for (const group of findGroups(items, (item) => item.newPath)) {
+    if (!group.some((item) => item.needsRename)) {
+      continue;
+    }
+
+    const isExisting = group.some((item) => !item.needsRename);
+    conflicts.push({
+      kind: isExisting ? 'existing-target' : 'duplicate-target',
+      targetPath: group[0].newPath,
+      items: group,
+      message: isExisting
+        ? `${describeItems(group.filter((item) => item.needsRename))} would overwrite ${group[0].newPath}`
+        : `${describeItems(group)} would all be renamed to ${group[0].newPath}`,
+    });
+  }
+
+  for (const group of findGroups(items, (item) => item.newPath.toLowerCase())) {
+    const distinctPaths = new Set(group.map((item) => item.newPath));
+    if (distinctPaths.size < 2 || !group.some((item) => item.needsRename)) {
+      continue;
+    }
+
+    conflicts.push({
+      kind: 'case-insensitive',
+      targetPath: group[0].newPath,
+      items: group,
+      message: `${[...distinctPaths].join(', ')} only differ in case and clash on case-insensitive filesystems`,
+    });
+  }
+
+  for (const item of items) {
+    if (item.originalPath.endsWith(TEMPORARY_SUFFIX)) {
+      conflicts.push({
+        kind: 'leftover-temp',
+        targetPath: item.originalPath,
+        items: [item],
+        message: `${item.originalPath} was left behind by an interrupted run, restore or remove it first`,
+      });
+    }
+  }
+
+  for (const item of renamedItems) {
+    const currentTargetPath = getCurrentPath(item.newPath);
+    const isCaseOnlyRename = item.originalPath.toLowerCase() === item.newPath.toLowerCase();
+
+    // Targets that are scanned themselves are covered above
+    if (!scannedPaths.has(currentTargetPath.toLowerCase()) && fs.existsSync(currentTargetPath)) {
+      conflicts.push({
+        kind: 'existing-target',
+        targetPath: item.newPath,
+        items: [item],
+        message: `${item.originalPath} would overwrite ${item.newPath}, which is not part of the scan`,
+      });
+    }
+
+    if (isCaseOnlyRename && fs.existsSync(currentTargetPath + TEMPORARY_SUFFIX)) {
+      conflicts.push({
+        kind: 'leftover-temp',
+        targetPath: item.newPath + TEMPORARY_SUFFIX,
+        items: [item],
+        message: `${item.newPath}${TEMPORARY_SUFFIX} was left behind by an interrupted run, restore or remove it first`,
+      });
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Get the items whose rename has to be changed to resolve a conflict. One renamed item
+ * keeps its target when nothing else already lives there.
+ */
+function getLosingItems(conflict: Conflict): FileSystemItem[] {
+  const renamedItems = conflict.items.filter((item) => item.needsRename);
+
+  if (conflict.items.length === renamedItems.length && conflict.kind !== 'existing-target') {
+    return renamedItems.slice(1);
+  }
+
+  return renamedItems;
+}
+
+/**
+ * Find a free target name for an item by appending `-2`, `-3`, ... to its name
+ */
+function findSuffixedName(items: FileSystemItem[], item: FileSystemItem): string {
+  const usedPaths = new Set(items.map((other) => other.newPath.toLowerCase()));
+  const getCurrentPath = createCurrentPathLookup(items);
+  const extension = item.isDirectory ? '' : path.extname(item.newPath);
+  const stem = path.basename(item.newPath, extension);
+
+  for (let suffix = 2; ; suffix++) {
+    const name = `${stem}-${suffix}${extension}`;
+    const candidatePath = path.join(path.dirname(item.newPath), name);
+    if (!usedPaths.has(candidatePath.toLowerCase()) && !fs.existsSync(getCurrentPath(candidatePath))) {
+      return name;
+    }
+  }
+}
+
+/**
+ * Resolve conflicts by skipping or suffixing the conflicting renames, until no resolvable
+ * conflicts are left. Leftover temporary paths always need manual cleanup.
+ */
+export function resolveConflicts(
+  items: FileSystemItem[],
+  resolution: Exclude<ConflictResolution, 'abort'>
+): ConflictResolutionResult {
+  let currentItems = items;
+  const resolved: string[] = [];
+
+  while (true) {
+    const conflicts = detectConflicts(currentItems);
+    const resolvableConflict = conflicts.find(
+      (conflict) => conflict.kind !== 'leftover-temp' && getLosingItems(conflict).length > 0
+    );
+
+    if (!resolvableConflict) {
+      return { items: currentItems, resolved, unresolved: conflicts };
+    }
+
+    for (const item of getLosingItems(resolvableConflict)) {
+      // Earlier changes in this loop may have replaced the item, it is picked up again next round
+      if (!currentItems.includes(item)) {
+        continue;
+      }
+
+      if (resolution === 'skip') {
+        currentItems = setItemTargetName(currentItems, item, path.basename(item.originalPath));
+        resolved.push(`Skipped ${item.originalPath} (${resolvableConflict.message})`);
+      } else {
+        const name = findSuffixedName(currentItems, item);
+        currentItems = setItemTargetName(currentItems, item, name);
+        resolved.push(`Renamed ${item.originalPath} to ${name} instead (${resolvableConflict.message})`);
+      }
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { execSync } from 'node:child_process';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+
+import { type ChangeScope, listFiles } from './file-list.js';
+import { getItemsToRename, scanDirectories } from './file-scanner.js';
+import { createPathFilter } from './path-filter.js';
+import {
+  type WriteFile,
+  createTemporaryDirectory,
+  removeTemporaryDirectory,
+} from '../__fixtures__/temporary-directory.js';
+
+let root: string;
+let writeFile: WriteFile;
+
+function toRelativePaths(paths: string[]): string[] {
+  return paths.map((itemPath) => path.relative(root, itemPath).split(path.sep).join('/')).sort();
+}
+
+function git(command: string): void {
+  execSync(`git ${command}`, { cwd: root, stdio: 'pipe' });
+}
+
+async function scanRenames(changes: ChangeScope): Promise<string[]> {
+  const pathFilter = createPathFilter({ rootDirectory: root });
+  const scanResult = await scanDirectories([path.join(root, 'src')], { pathFilter, changes });
+
+  return toRelativePaths(getItemsToRename(scanResult).map((item) => item.originalPath));
+}
+
+beforeEach(() => {
+  ({ root, writeFile } = createTemporaryDirectory());
+  writeFile('src/UserCard.tsx');
+  writeFile('src/Generated/ApiClient.ts');
+  writeFile('src/dist/Bundle.js');
+  writeFile('src/.env.local');
+});
+
+afterEach(() => {
+  removeTemporaryDirectory(root);
+});
+
+describe('listFiles', () => {
+  test('walks the filesystem outside git', async () => {
+    const pathFilter = createPathFilter({ rootDirectory: root });
+
+    expect(toRelativePaths(await listFiles(path.join(root, 'src'), pathFilter))).toEqual([
+      'src/Generated/ApiClient.ts',
+      'src/UserCard.tsx',
+    ]);
+  });
+
+  test('lists tracked and untracked files that git does not ignore', async () => {
+    execSync('git init --quiet', { cwd: root, stdio: 'pipe' });
+    writeFile('.gitignore', 'Generated/\n');
+    const pathFilter = createPathFilter({ rootDirectory: root });
+
+    expect(toRelativePaths(await listFiles(path.join(root, 'src'), pathFilter))).toEqual(['src/UserCard.tsx']);
+  });
+
+  test('never scans gitignored paths', async () => {
+    execSync('git init --quiet', { cwd: root, stdio: 'pipe' });
+    writeFile('.gitignore', 'Generated/\n');
+    const pathFilter = createPathFilter({ rootDirectory: root });
+    const { items } = await scanDirectories([path.join(root, 'src')], { pathFilter });
+
+    expect(toRelativePaths(items.map((item) => item.originalPath))).toEqual(['src/UserCard.tsx']);
+  });
+});
+
+describe('scanDirectories with changes', () => {
+  beforeEach(() => {
+    git('init --quiet');
+    git('config user.name Baptist');
+    git('config user.email baptist@example.com');
+    git('add .');
+    git('commit --quiet --message Initial');
+  });
+
+  test('renames files changed since a ref, and folders whose every file changed', async () => {
+    writeFile('src/UserCard.tsx', 'export {};');
+    writeFile('src/Generated/NewClient.ts');
+    writeFile('src/NewFeature/FeatureFlag.ts');
+
+    expect(await scanRenames({ since: 'HEAD' })).toEqual([
+      'src/Generated/NewClient.ts',
+      'src/NewFeature',
+      'src/UserCard.tsx',
+      // Items inside a renamed folder are scanned under its new name
+      'src/new-feature/FeatureFlag.ts',
+    ]);
+  });
+
+  test('renames staged files only', async () => {
+    writeFile('src/UserCard.tsx', 'export {};');
+    writeFile('src/Generated/NewClient.ts');
+    git('add src/Generated/NewClient.ts');
+
+    expect(await scanRenames({ staged: true })).toEqual(['src/Generated/NewClient.ts']);
+  });
+
+  test('renames listed files only, a listed folder standing for its files', async () => {
+    writeFile('src/NewFeature/FeatureFlag.ts');
+
+    expect(
+      await scanRenames({ files: [path.join(root, 'src', 'UserCard.tsx'), path.join(root, 'src', 'NewFeature')] })
+    ).toEqual(['src/NewFeature', 'src/UserCard.tsx', 'src/new-feature/FeatureFlag.ts']);
+  });
+
+  test('throws for unknown refs', async () => {
+    await expect(scanRenames({ since: 'no-such-branch' })).rejects.toThrow('Unknown git ref: no-such-branch');
+  });
+});
@@ -0,0 +1,314 @@
+import { execFile } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+import { promisify } from 'node:util';
+
+import { mapWithConcurrency } from './helpers.js';
+import { type PathFilter, createPathFilter } from './path-filter.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Number of directories read or files read and written at once
+ */
+export const DEFAULT_CONCURRENCY = 32;
+
+const GIT_OPTIONS = { encoding: 'utf8', maxBuffer: 256 * 1024 * 1024 } as const;
+
+async function git(directoryPath: string, arguments_: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', arguments_, { ...GIT_OPTIONS, cwd: directoryPath });
+  return stdout;
+}
+
+/**
+ * List the files git knows about in a directory: tracked files plus untracked files that
+ * are not ignored. Tracked files deleted from the working tree are listed as well, walks
+ * never come across them. Returns `undefined` when the directory is not inside a git
+ * repository (or is ignored itself), in which case callers walk the filesystem instead.
+ */
+export async function listGitFiles(directoryPath: string): Promise<string[] | undefined> {
+  try {
+    await git(directoryPath, ['rev-parse', '--show-toplevel']);
+  } catch {
+    return undefined;
+  }
+
+  try {
+    // Ignored directories are handled like directories outside git, as in `checkGitStatus`
+    await git(directoryPath, ['check-ignore', '.']);
+    return undefined;
+  } catch {
+    // Not ignored, list the files below
+  }
+
+  const output = await git(directoryPath, ['ls-files', '--cached', '--others', '--exclude-standard', '-z']);
+
+  return [
+    ...new Set(
+      output
+        .split('\0')
+        .filter((file) => file.length > 0)
+        .map((file) => path.join(directoryPath, file))
+    ),
+  ];
+}
+
+/**
+ * Get the files and all their parent directories up to `directoryPath`, to check which
+ * entries of a filesystem walk git knows about
+ */
+export function getListedPaths(directoryPath: string, files: string[]): Set<string> {
+  const listedPaths = new Set<string>();
+  const root = path.join(directoryPath);
+
+  for (const file of files) {
+    for (let current = file; current !== root && !listedPaths.has(current); current = path.dirname(current)) {
+      listedPaths.add(current);
+    }
+  }
+
+  return listedPaths;
+}
+
+export interface IndexedEntry {
+  name: string;
+  isDirectory: boolean;
+  /** Excluded by the path filter or, inside git, ignored. Skipped entries are never renamed or rewritten. */
+  isSkipped: boolean;
+}
+
+/**
+ * The directory tree shared by the scanner, the import updater and the config updater, so
+ * a run walks the filesystem once. Directories are walked as they are first needed.
+ */
+export interface FileIndex {
+  pathFilter: PathFilter;
+  /** Number of directories or files read at once */
+  concurrency: number;
+  /** Entries of every walked directory, keyed by absolute path and sorted by name */
+  entries: Map<string, IndexedEntry[]>;
+}
+
+export function createFileIndex(options: { pathFilter?: PathFilter; concurrency?: number } = {}): FileIndex {
+  return {
+    pathFilter: options.pathFilter ?? createPathFilter(),
+    concurrency: options.concurrency ?? DEFAULT_CONCURRENCY,
+    entries: new Map(),
+  };
+}
+
+function compareNames(a: IndexedEntry, b: IndexedEntry): number {
+  return a.name < b.name ? -1 : a.name > b.name ? 1 : 0;
+}
+
+/**
+ * Walk a directory into the index, level by level with bounded concurrency. Inside git,
+ * only paths git knows about are walked. Directories walked before are not read again.
+ */
+export async function indexDirectory(index: FileIndex, directoryPath: string): Promise<void> {
+  const rootDirectory = path.resolve(directoryPath);
+  if (index.entries.has(rootDirectory)) {
+    return;
+  }
+
+  const gitFiles = await listGitFiles(rootDirectory);
+  const listedPaths = gitFiles && getListedPaths(rootDirectory, gitFiles);
+
+  for (let level = [rootDirectory]; level.length > 0; ) {
+    const subdirectories = await mapWithConcurrency(level, index.concurrency, async (directory) => {
+      const dirents = await fs.promises.readdir(directory, { withFileTypes: true });
+      const entries = dirents
+        .filter((dirent) => dirent.isFile() || dirent.isDirectory())
+        .map((dirent) => {
+          const fullPath = path.join(directory, dirent.name);
+          const isDirectory = dirent.isDirectory();
+
+          return {
+            name: dirent.name,
+            isDirectory,
+            isSkipped:
+              (listedPaths !== undefined && !listedPaths.has(fullPath)) ||
+              index.pathFilter.isExcluded(fullPath, isDirectory),
+          };
+        })
+        .sort(compareNames);
+
+      index.entries.set(directory, entries);
+
+      return entries
+        .filter((entry) => entry.isDirectory && !entry.isSkipped)
+        .map((entry) => path.join(directory, entry.name))
+        .filter((subdirectory) => !index.entries.has(subdirectory));
+    });
+
+    level = subdirectories.flat();
+  }
+}
+
+/**
+ * Get the indexed entries of a directory, which must have been walked
+ */
+export function getIndexedEntries(index: FileIndex, directoryPath: string): IndexedEntry[] {
+  return index.entries.get(path.resolve(directoryPath)) ?? [];
+}
+
+/**
+ * List a directory and the directories below it that are not skipped, in the form the
+ * directory is given in
+ */
+export async function listIndexedDirectories(index: FileIndex, directoryPath: string): Promise<string[]> {
+  await indexDirectory(index, directoryPath);
+
+  const directories: string[] = [];
+  for (let pending = [directoryPath]; pending.length > 0; ) {
+    const directory = pending.pop() as string;
+    directories.push(directory);
+
+    for (const entry of getIndexedEntries(index, directory)) {
+      if (entry.isDirectory && !entry.isSkipped) {
+        pending.push(path.join(directory, entry.name));
+      }
+    }
+  }
+
+  return directories;
+}
+
+/**
+ * List all files in a directory that are not skipped, in the form the directory is given in
+ */
+export async function listIndexedFiles(index: FileIndex, directoryPath: string): Promise<string[]> {
+  const directories = await listIndexedDirectories(index, directoryPath);
+
+  return directories.flatMap((directory) =>
+    getIndexedEntries(index, directory)
+      .filter((entry) => !entry.isDirectory && !entry.isSkipped)
+      .map((entry) => path.join(directory, entry.name))
+  );
+}
+
+/**
+ * List all files in a directory that are not excluded. Inside a git repository only files
+ * git knows about are listed, so gitignored files are never included.
+ */
+export async function listFiles(directoryPath: string, pathFilter: PathFilter): Promise<string[]> {
+  const stats = await fs.promises.stat(directoryPath).catch(() => {});
+  if (!stats?.isDirectory()) {
+    return [];
+  }
+
+  return listIndexedFiles(createFileIndex({ pathFilter }), directoryPath);
+}
+
+export interface ChangeScope {
+  /** Git ref, only files added, modified or renamed since are in scope */
+  since?: string;
+  /** Only staged files are in scope */
+  staged?: boolean;
+  /** Only these files are in scope, directories standing for all of their files */
+  files?: string[];
+}
+
+/**
+ * List the files in a directory added, modified or renamed since a git ref, or staged.
+ * Changes since a ref include uncommitted and untracked files.
+ */
+export async function listChangedFiles(
+  directoryPath: string,
+  { since, staged = false }: ChangeScope
+): Promise<string[]> {
+  try {
+    await git(directoryPath, ['rev-parse', '--show-toplevel']);
+  } catch {
+    throw new Error(`Only changed files can be renamed inside a git repository, ${directoryPath} is not in one`);
+  }
+
+  if (since !== undefined) {
+    try {
+      await git(directoryPath, ['rev-parse', '--verify', '--quiet', `${since}^{commit}`]);
+    } catch {
+      throw new Error(`Unknown git ref: ${since}`);
+    }
+  }
+
+  const changedFiles = await git(directoryPath, [
+    'diff',
+    '--name-only',
+    '--relative',
+    '--diff-filter=AMR',
+    '-z',
+    ...(staged ? ['--cached'] : []),
+    ...(since === undefined ? [] : [since]),
+    '--',
+  ]);
+  const untrackedFiles = staged ? '' : await git(directoryPath, ['ls-files', '--others', '--exclude-standard', '-z']);
+
+  return [...new Set([...changedFiles.split('\0'), ...untrackedFiles.split('\0')])]
+    .filter((file) => file.length > 0)
+    .map((file) => path.join(directoryPath, file))
+    .filter((file) => fs.existsSync(file));
+}
+
+/**
+ * List the files in a directory that are in scope, from the given files or from git
+ */
+export async function listScopedFiles(index: FileIndex, directoryPath: string, scope: ChangeScope): Promise<string[]> {
+  if (!scope.files) {
+    return listChangedFiles(directoryPath, scope);
+  }
+
+  const absoluteDirectory = path.resolve(directoryPath);
+  const scopedFiles = await Promise.all(
+    scope.files.map(async (file) => {
+      const relativePath = path.relative(absoluteDirectory, path.resolve(file));
+      if (relativePath === '' || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+        return [];
+      }
+
+      const scopedPath = path.join(directoryPath, relativePath);
+      const stats = await fs.promises.stat(scopedPath).catch(() => {});
+      return stats?.isDirectory() ? listIndexedFiles(index, scopedPath) : [scopedPath];
+    })
+  );
+
+  return scopedFiles.flat();
+}
+
+/**
+ * Get the changed files along with the directories up to `directoryPath` whose every file
+ * changed, as renaming a directory moves all of its files
+ */
+export function getScopedPaths(directoryPath: string, files: string[], changedFiles: string[]): Set<string> {
+  const root = path.join(directoryPath);
+  const changedFileSet = new Set(changedFiles);
+  const unchangedDirectories = new Set<string>();
+
+  for (const file of files) {
+    if (changedFileSet.has(file)) {
+      continue;
+    }
+
+    for (
+      let current = path.dirname(file);
+      current !== root && !unchangedDirectories.has(current);
+      current = path.dirname(current)
+    ) {
+      unchangedDirectories.add(current);
+    }
+  }
+
+  const scopedPaths = new Set<string>();
+  for (const file of changedFileSet) {
+    scopedPaths.add(file);
+
+    for (
+      let current = path.dirname(file);
+      current !== root && !unchangedDirectories.has(current) && !scopedPaths.has(current);
+      current = path.dirname(current)
+    ) {
+      scopedPaths.add(current);
+    }
+  }
+
+  return scopedPaths;
+}
@@ -1,8 +1,34 @@
 import fs from 'node:fs';
 import path from 'node:path';
 
-import { camelCaseToKebabCase, sortItemsForSafeRenaming } from './helpers.js';
-import type { FileSystemItem } from '../types/index.js';
+import {
+  type ChangeScope,
+  type FileIndex,
+  createFileIndex,
+  getIndexedEntries,
+  getScopedPaths,
+  indexDirectory,
+  listIndexedFiles,
+  listScopedFiles,
+} from './file-list.js';
+import { sortItemsForSafeRenaming } from './helpers.js';
+import { type NamingStrategy, getNamingStrategy } from './naming.js';
+import { type PathFilter, createPathFilter } from './path-filter.js';
+import type { FileSystemItem, MoveOperation } from '../types/index.js';
+
+export interface ScanOptions {
+  /** Naming strategy used to compute target names, defaults to kebab-case */
+  namingStrategy?: NamingStrategy;
+  /** Decides which paths are skipped or kept under their name, defaults to the default excludes */
+  pathFilter?: PathFilter;
+  /**
+   * Only rename files changed in git or listed, and directories whose every file is. Other
+   * items are still scanned, but keep their name.
+   */
+  changes?: ChangeScope;
+  /** Index to walk the directories into, shared with the other steps of a run */
+  fileIndex?: FileIndex;
+}
 
 export interface ScanResult {
   items: FileSystemItem[];
@@ -10,49 +36,38 @@ export interface ScanResult {
 }
 
 /**
- * Skip these patterns when scanning
+ * Suffix of the temporary paths used for case-only renames
  */
-const SKIP_PATTERNS = [
-  /^\./, // Hidden files/directories
-  /node_modules/,
-  /\.git/,
-  /dist/,
-  /build/,
-  /coverage/,
-  /\.nyc_output/,
-];
-
-/**
- * Check if a path should be skipped
- */
-function shouldSkip(itemPath: string): boolean {
-  const basename = path.basename(itemPath);
-  return SKIP_PATTERNS.some((pattern) => pattern.test(basename));
-}
+export const TEMPORARY_SUFFIX = '.tmp-baptist';
 
 /**
- * Scan a single directory recursively
+ * Scan a single indexed directory recursively
  */
-function scanDirectoryRecursive(directoryPath: string, basePath: string = ''): FileSystemItem[] {
+function scanDirectoryRecursive(
+  directoryPath: string,
+  namingStrategy: NamingStrategy,
+  fileIndex: FileIndex,
+  scopedPaths: Set<string> | undefined,
+  basePath: string = ''
+): FileSystemItem[] {
   const items: FileSystemItem[] = [];
+  const { pathFilter } = fileIndex;
 
-  if (!fs.existsSync(directoryPath) || !fs.statSync(directoryPath).isDirectory()) {
-    return items;
-  }
-
-  const entries = fs.readdirSync(directoryPath, { withFileTypes: true });
-
-  for (const entry of entries) {
+  for (const entry of getIndexedEntries(fileIndex, directoryPath)) {
     const fullPath = path.join(directoryPath, entry.name);
     const relativePath = path.join(basePath, entry.name);
 
-    if (shouldSkip(fullPath)) {
+    // Inside git, only paths git knows about are scanned, so ignored paths are never renamed
+    if (entry.isSkipped) {
       continue;
     }
 
-    if (entry.isDirectory()) {
+    // Items outside the include globs or the changes in scope are still scanned, but keep their name
+    const isIncluded = pathFilter.isIncluded(fullPath) && (!scopedPaths || scopedPaths.has(fullPath));
+
+    if (entry.isDirectory) {
       // Process directory
-      const newDirectoryName = camelCaseToKebabCase(entry.name);
+      const newDirectoryName = isIncluded ? namingStrategy.convert(entry.name) : entry.name;
       const newRelativePath = path.join(basePath, newDirectoryName);
       const needsRename = entry.name !== newDirectoryName;
 
@@ -64,13 +79,13 @@ function scanDirectoryRecursive(directoryPath: string, basePath: string = ''): F
       });
 
       // Recursively scan subdirectory
-      const subdirItems = scanDirectoryRecursive(fullPath, newRelativePath);
+      const subdirItems = scanDirectoryRecursive(fullPath, namingStrategy, fileIndex, scopedPaths, newRelativePath);
       items.push(...subdirItems);
-    } else if (entry.isFile()) {
+    } else {
       // Process file
       const fileExtension = path.extname(entry.name);
       const fileName = path.basename(entry.name, fileExtension);
-      const newFileName = camelCaseToKebabCase(fileName);
+      const newFileName = isIncluded ? namingStrategy.convert(fileName) : fileName;
       const newRelativePath = path.join(basePath, newFileName + fileExtension);
       const needsRename = entry.name !== newFileName + fileExtension;
 
@@ -89,19 +104,33 @@ function scanDirectoryRecursive(directoryPath: string, basePath: string = ''): F
 /**
  * Scan multiple directories and return all files/directories that need processing
  */
-export function scanDirectories(directories: string[]): ScanResult {
+export async function scanDirectories(directories: string[], options: ScanOptions = {}): Promise<ScanResult> {
+  const namingStrategy = options.namingStrategy ?? getNamingStrategy();
+  const fileIndex = options.fileIndex ?? createFileIndex({ pathFilter: options.pathFilter ?? createPathFilter() });
+  const { changes } = options;
+  const isScoped =
+    changes !== undefined && (changes.since !== undefined || changes.staged === true || changes.files !== undefined);
   const allItems: FileSystemItem[] = [];
 
   for (const directory of directories) {
-    if (!fs.existsSync(directory)) {
+    const stats = await fs.promises.stat(directory).catch(() => {});
+    if (!stats) {
       throw new Error(`Directory does not exist: ${directory}`);
     }
 
-    if (!fs.statSync(directory).isDirectory()) {
+    if (!stats.isDirectory()) {
       throw new Error(`Path is not a directory: ${directory}`);
     }
 
-    const items = scanDirectoryRecursive(directory, directory);
+    await indexDirectory(fileIndex, directory);
+    const scopedPaths = isScoped
+      ? getScopedPaths(
+          directory,
+          await listIndexedFiles(fileIndex, directory),
+          await listScopedFiles(fileIndex, directory, changes)
+        )
+      : undefined;
+    const items = scanDirectoryRecursive(directory, namingStrategy, fileIndex, scopedPaths, directory);
     allItems.push(...items);
   }
 
@@ -119,10 +148,39 @@ export function getItemsToRename(scanResult: ScanResult): FileSystemItem[] {
 }
 
 /**
- * Generate git mv commands for renaming items
+ * Change the target name of an item. Items inside a directory build their paths on the
+ * directory's new path, so those are updated as well. The items must be in scan order,
+ * where the contents of a directory directly follow it. Returns a new array.
  */
-export function generateMoveCommands(items: FileSystemItem[]): string[] {
-  const commands: string[] = [];
+export function setItemTargetName(items: FileSystemItem[], target: FileSystemItem, newName: string): FileSystemItem[] {
+  const newPath = path.join(path.dirname(target.newPath), newName);
+  const previousPrefix = target.newPath + path.sep;
+  const targetIndex = items.indexOf(target);
+  const result = [...items];
+
+  result[targetIndex] = { ...target, newPath, needsRename: path.basename(target.originalPath) !== newName };
+
+  for (let index = targetIndex + 1; target.isDirectory && index < items.length; index++) {
+    const item = items[index];
+    if (!item.originalPath.startsWith(previousPrefix)) {
+      break;
+    }
+
+    result[index] = {
+      ...item,
+      originalPath: newPath + path.sep + item.originalPath.slice(previousPrefix.length),
+      newPath: newPath + path.sep + item.newPath.slice(previousPrefix.length),
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Generate the ordered move operations for renaming items
+ */
+export function generateMoveOperations(items: FileSystemItem[]): MoveOperation[] {
+  const operations: MoveOperation[] = [];
 
   // Sort items for safe renaming (parents before children)
   const sortedItems = sortItemsForSafeRenaming(items);
@@ -133,13 +191,51 @@ export function generateMoveCommands(items: FileSystemItem[]): string[] {
       const isCaseOnlyRename = item.originalPath.toLowerCase() === item.newPath.toLowerCase();
 
       if (isCaseOnlyRename) {
-        const temporaryPath = `${item.newPath}.tmp-baptist`;
-        commands.push(`mv "${item.originalPath}" "${temporaryPath}"`, `mv "${temporaryPath}" "${item.newPath}"`);
+        const temporaryPath = `${item.newPath}${TEMPORARY_SUFFIX}`;
+        operations.push({ from: item.originalPath, to: temporaryPath }, { from: temporaryPath, to: item.newPath });
       } else {
-        commands.push(`mv "${item.originalPath}" "${item.newPath}"`);
+        operations.push({ from: item.originalPath, to: item.newPath });
       }
     }
   }
 
-  return commands;
+  return operations;
+}
+
+/**
+ * Get one move per renamed item from the move operations, merging the two moves of a
+ * case-only rename
+ */
+export function getItemMoves(operations: MoveOperation[]): MoveOperation[] {
+  const moves: MoveOperation[] = [];
+
+  for (const [index, operation] of operations.entries()) {
+    const previous = operations[index - 1] as MoveOperation | undefined;
+    if (operation.to.endsWith(TEMPORARY_SUFFIX)) {
+      continue;
+    }
+
+    moves.push(
+      previous?.to === operation.from && operation.from.endsWith(TEMPORARY_SUFFIX)
+        ? { from: previous.from, to: operation.to }
+        : operation
+    );
+  }
+
+  return moves;
+}
+
+/**
+ * Format a move operation as a `mv` command, for display only. Moves are run by
+ * `executeMoveOperations`, without a shell.
+ */
+export function formatMoveCommand(operation: MoveOperation): string {
+  return `mv "${operation.from}" "${operation.to}"`;
+}
+
+/**
+ * Generate git mv commands for renaming items
+ */
+export function generateMoveCommands(items: FileSystemItem[]): string[] {
+  return generateMoveOperations(items).map((operation) => formatMoveCommand(operation));
 }
@@ -1,7 +1,10 @@
-import { execSync } from 'node:child_process';
+import { execFileSync, execSync } from 'node:child_process';
 import fs from 'node:fs';
 import path from 'node:path';
 
+import { formatMoveCommand } from './file-scanner.js';
+import type { MoveOperation } from '../types/index.js';
+
 export interface GitStatus {
   isDirty: boolean;
   dirtyFiles: string[];
@@ -90,52 +93,203 @@ export function checkGitStatus(directories: string[]): false | GitStatus {
 }
 
 /**
- * Execute multiple git mv commands directly (no temporary script).
- *
- * Each entry in `commands` is expected to be a shell snippet that would normally
- * follow the `git` keyword – for example `mv \"old\" \"new\"` produced by
- * `generateMoveCommands`. This function prefixes each command with `git` and
- * executes it via `execSync`, capturing output for better error reporting.
+ * Get the commit checked out in the git repository of a directory, or `undefined` outside
+ * git (or before the first commit)
  */
-export function executeGitMoveCommands(commands: string[], prefixGit: boolean, workingDirectory?: string): void {
-  if (commands.length === 0) return;
+export function getGitHead(directory: string): string | undefined {
+  try {
+    return execSync('git rev-parse HEAD', {
+      cwd: path.resolve(directory),
+      encoding: 'utf8',
+      stdio: 'pipe',
+    }).trim();
+  } catch {
+    return undefined;
+  }
+}
 
-  for (const cmd of commands) {
-    // Prefix each command with `git` so that we run `git mv` rather than plain `mv`.
-    const fullCommand = prefixGit ? `git ${cmd}` : cmd;
-    try {
-      const output = execSync(fullCommand, {
-        cwd: workingDirectory,
-        encoding: 'utf8',
-        stdio: 'pipe',
-      });
+/**
+ * Check whether git tracks a file, or any file inside a directory
+ */
+function isTracked(itemPath: string, workingDirectory?: string): boolean {
+  try {
+    execFileSync('git', ['ls-files', '--error-unmatch', '--', itemPath], { cwd: workingDirectory, stdio: 'pipe' });
+    return true;
+  } catch {
+    return false;
+  }
+}
 
-      // Show output if there is any (though git mv is usually silent on success)
-      if (output.trim()) {
-        console.log(output.trim());
-      }
-    } catch (error: unknown) {
-      // Create a detailed error message with raw command output
-      let errorMessage = `Command failed: ${fullCommand}`;
+/**
+ * Move a single file or directory, through `git mv` if `useGit` is set and git tracks it.
+ * Untracked files, such as the new files `watch --fix` renames, are moved on disk and stay
+ * untracked. The paths are passed as arguments rather than through a shell, so names
+ * containing quotes, `$(...)` or backticks are moved as they are.
+ */
+function executeMoveOperation(operation: MoveOperation, useGit: boolean, workingDirectory?: string): void {
+  if (!useGit || !isTracked(operation.from, workingDirectory)) {
+    const resolve = (itemPath: string) => path.resolve(workingDirectory ?? '', itemPath);
+    fs.renameSync(resolve(operation.from), resolve(operation.to));
+    return;
+  }
 
-      if (error instanceof Error && 'stderr' in error && error.stderr) {
-        errorMessage += `\nStderr: ${error.stderr.toString().trim()}`;
-      }
+  try {
+    execFileSync('git', ['mv', '--', operation.from, operation.to], {
+      cwd: workingDirectory,
+      encoding: 'utf8',
+      stdio: 'pipe',
+    });
+  } catch (error: unknown) {
+    // Create a detailed error message with raw command output
+    let errorMessage = `Command failed: git ${formatMoveCommand(operation)}`;
 
-      if (error instanceof Error && 'stdout' in error && error.stdout) {
-        errorMessage += `\nStdout: ${error.stdout.toString().trim()}`;
-      }
+    if (error instanceof Error && 'stderr' in error && error.stderr) {
+      errorMessage += `\nStderr: ${error.stderr.toString().trim()}`;
+    }
 
-      if (error instanceof Error && 'status' in error && error.status !== undefined) {
-        errorMessage += `\nExit code: ${error.status}`;
-      }
+    if (error instanceof Error && 'stdout' in error && error.stdout) {
+      errorMessage += `\nStdout: ${error.stdout.toString().trim()}`;
+    }
 
-      if (error instanceof Error && 'signal' in error && error.signal) {
-        errorMessage += `\nSignal: ${error.signal}`;
-      }
+    if (error instanceof Error && 'status' in error && error.status !== undefined) {
+      errorMessage += `\nExit code: ${error.status}`;
+    }
+
+    throw new Error(errorMessage);
+  }
+}
+
+export interface MoveExecutionOptions {
+  workingDirectory?: string;
+  /** Called after each successful move, so callers can keep track of what has been done */
+  onMove?: (operation: MoveOperation) => void;
+}
+
+/**
+ * Execute move operations one by one, through `git mv` for tracked items if `prefixGit` is set
+ */
+export function executeMoveOperations(
+  operations: MoveOperation[],
+  prefixGit: boolean,
+  { workingDirectory, onMove }: MoveExecutionOptions = {}
+): void {
+  for (const operation of operations) {
+    executeMoveOperation(operation, prefixGit, workingDirectory);
+    onMove?.(operation);
+  }
+}
 
-      // Throw a new error with the enhanced message
-      throw new Error(errorMessage);
+export interface CommitMessages {
+  /** Message of the commit holding the moves, `{count}` and `{case}` are filled in */
+  rename?: string;
+  /** Message of the commit holding the updated references, `{count}` and `{case}` are filled in */
+  content?: string;
+}
+
+export const DEFAULT_COMMIT_MESSAGES: Required<CommitMessages> = {
+  rename: 'Rename {count} files and directories to {case} case',
+  content: 'Update references in {count} files after renaming to {case} case',
+};
+
+/**
+ * Fill in the `{count}` and `{case}` placeholders of a commit message
+ */
+export function formatCommitMessage(template: string, values: { count: number; case: string }): string {
+  return template.replaceAll('{count}', String(values.count)).replaceAll('{case}', values.case);
+}
+
+/**
+ * Check whether the git repository of a directory has staged changes, which a commit
+ * would include
+ */
+export function hasStagedChanges(directory: string): boolean {
+  try {
+    execFileSync('git', ['diff', '--cached', '--quiet'], { cwd: path.resolve(directory), stdio: 'pipe' });
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * List the files among `files` whose working tree differs from the index, relative to the
+ * working directory
+ */
+export function listUnstagedFiles(files: string[]): string[] {
+  if (files.length === 0) {
+    return [];
+  }
+
+  const output = execFileSync('git', ['diff', '--name-only', '--relative', '-z', '--', ...files], {
+    encoding: 'utf8',
+    stdio: 'pipe',
+  });
+
+  return output.split('\0').filter((file) => file !== '');
+}
+
+/**
+ * Stage the changes of the tracked files among `files`, relative to the working directory
+ */
+export function stageFiles(files: string[]): void {
+  if (files.length === 0) {
+    return;
+  }
+
+  execFileSync('git', ['add', '--update', '--pathspec-from-file=-', '--pathspec-file-nul'], {
+    input: files.join('\0'),
+    stdio: 'pipe',
+  });
+}
+
+/**
+ * Stage the changes of tracked files among `files` (relative to the working directory)
+ * and commit everything staged. Returns the hash of the new commit, or `undefined` when
+ * there was nothing to commit.
+ */
+export function commitChanges(message: string, files: string[], directory: string): string | undefined {
+  try {
+    stageFiles(files);
+
+    if (!hasStagedChanges(directory)) {
+      return undefined;
     }
+
+    execFileSync('git', ['commit', '--quiet', '--message', message], { cwd: path.resolve(directory), stdio: 'pipe' });
+  } catch (error: unknown) {
+    const stderr =
+      error instanceof Error && 'stderr' in error && error.stderr ? `\n${String(error.stderr).trim()}` : '';
+    throw new Error(`Could not commit "${message}"${stderr}`);
+  }
+
+  return getGitHead(directory);
+}
+
+/**
+ * Get the root of the git repository of a directory, or `undefined` outside git
+ */
+export function getRepositoryRoot(directory: string): string | undefined {
+  try {
+    return execFileSync('git', ['rev-parse', '--show-toplevel'], {
+      cwd: path.resolve(directory),
+      encoding: 'utf8',
+      stdio: 'pipe',
+    }).trim();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the directory git runs hooks from, following `core.hooksPath`
+ */
+export function getHooksDirectory(repositoryRoot: string): string {
+  const options = { cwd: repositoryRoot, encoding: 'utf8', stdio: 'pipe' } as const;
+
+  try {
+    return path.resolve(repositoryRoot, execFileSync('git', ['config', 'core.hooksPath'], options).trim());
+  } catch {
+    // Not configured, hooks live in the git directory
+    return path.resolve(repositoryRoot, execFileSync('git', ['rev-parse', '--git-path', 'hooks'], options).trim());
   }
 }
@@ -1,6 +1,6 @@
 import { describe, expect, test } from 'vitest';
 
-import { camelCaseToKebabCase, sortItemsForSafeRenaming } from './helpers.js';
+import { camelCaseToKebabCase, mapWithConcurrency, sortItemsForSafeRenaming } from './helpers.js';
 import type { FileSystemItem } from '../types/index.js';
 
 describe('camelCaseToKebabCase', () => {
@@ -49,11 +49,25 @@ describe('camelCaseToKebabCase', () => {
   });
 
   test('handles multiple consecutive uppercase letters correctly', () => {
-    expect(camelCaseToKebabCase('XMLHTTPSConnection')).toBe('xmlhttps-connection');
-    expect(camelCaseToKebabCase('getXMLHTTPRequest')).toBe('get-xmlhttp-request');
+    expect(camelCaseToKebabCase('XMLHTTPSConnection')).toBe('xml-https-connection');
+    expect(camelCaseToKebabCase('getXMLHTTPRequest')).toBe('get-xml-http-request');
     expect(camelCaseToKebabCase('parseJSONData')).toBe('parse-json-data');
   });
 
+  test('keeps acronyms and brand names together', () => {
+    expect(camelCaseToKebabCase('iOSButton')).toBe('ios-button');
+    expect(camelCaseToKebabCase('GraphQLClient')).toBe('graphql-client');
+    expect(camelCaseToKebabCase('OAuth2Provider')).toBe('oauth2-provider');
+    expect(camelCaseToKebabCase('macOSMenu')).toBe('macos-menu');
+    expect(camelCaseToKebabCase('JSONAPIClient')).toBe('json-api-client');
+  });
+
+  test('does not split acronyms out of longer words', () => {
+    expect(camelCaseToKebabCase('IdentityCard')).toBe('identity-card');
+    expect(camelCaseToKebabCase('RestoreButton')).toBe('restore-button');
+    expect(camelCaseToKebabCase('UIButton')).toBe('ui-button');
+  });
+
   test('handles lowercase strings', () => {
     expect(camelCaseToKebabCase('lowercase')).toBe('lowercase');
     expect(camelCaseToKebabCase('alllowercase')).toBe('alllowercase');
@@ -183,3 +197,37 @@ describe('sortItemsForSafeRenaming', () => {
     expect(sorted).not.toBe(items); // Should return new array
   });
 });
+
+describe('mapWithConcurrency', () => {
+  test('keeps the order of the items and limits the calls running at once', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 0], 2, async (delay) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      running--;
+      return delay * 2;
+    });
+
+    expect(results).toEqual([60, 20, 40, 0]);
+    expect(maxRunning).toBe(2);
+  });
+
+  test('waits for the calls still running before throwing', async () => {
+    const finished: number[] = [];
+
+    await expect(
+      mapWithConcurrency([1, 2, 3], 2, async (item) => {
+        if (item === 1) {
+          throw new Error('Failed');
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        finished.push(item);
+      })
+    ).rejects.toThrow('Failed');
+    expect(finished).toEqual([2]);
+  });
+});
@@ -1,3 +1,4 @@
+import { splitCamelCase } from './acronyms.js';
 import type { FileSystemItem } from '../types/index.js';
 
 /**
@@ -11,6 +12,8 @@ import type { FileSystemItem } from '../types/index.js';
  * camelCaseToKebabCase('XMLHttpRequest') // 'xml-http-request'
  * camelCaseToKebabCase('user123Id') // 'user123-id'
  * camelCaseToKebabCase('getHTMLElement') // 'get-html-element'
+ * camelCaseToKebabCase('XMLHTTPSConnection') // 'xml-https-connection'
+ * camelCaseToKebabCase('iOSButton') // 'ios-button'
  * camelCaseToKebabCase('') // ''
  * camelCaseToKebabCase('a') // 'a'
  */
@@ -30,16 +33,8 @@ export function camelCaseToKebabCase(input: string): string {
     return input;
   }
 
-  return (
-    input
-      // Insert hyphen before uppercase letters that follow lowercase letters or digits
-      .replaceAll(/([a-z0-9])([A-Z])/g, '$1-$2')
-      // Insert hyphen before uppercase letters that are followed by lowercase letters,
-      // but only if they're part of a sequence of uppercase letters
-      .replaceAll(/([A-Z])([A-Z][a-z])/g, '$1-$2')
-      // Convert to lowercase
-      .toLowerCase()
-  );
+  // Split each run of letters and digits at camelCase boundaries and known acronyms
+  return input.replaceAll(/[\dA-Za-z]+/g, (run) => splitCamelCase(run).join('-')).toLowerCase();
 }
 
 /**
@@ -77,3 +72,37 @@ export function sortItemsForSafeRenaming(items: FileSystemItem[]): FileSystemIte
     }
   });
 }
+
+/**
+ * Map items with an async function, running at most `concurrency` calls at once. The
+ * results keep the order of the items. When a call fails, no further calls are started
+ * and the error is thrown once the calls still running have settled.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  map: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = Array.from({ length: items.length });
+  const errors: unknown[] = [];
+  let nextIndex = 0;
+
+  const work = async () => {
+    while (nextIndex < items.length && errors.length === 0) {
+      const index = nextIndex++;
+      try {
+        results[index] = await map(items[index]);
+      } catch (error) {
+        errors.push(error);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, () => work()));
+
+  if (errors.length > 0) {
+    throw errors[0];
+  }
+
+  return results;
+}
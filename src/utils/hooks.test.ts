@@ -0,0 +1,157 @@
+import { execFileSync, execSync } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { UnstagedChangesError, addLefthookBlock, fixStagedFiles, installHook, uninstallHook } from './hooks.js';
+import {
+  type WriteFile,
+  createTemporaryDirectory,
+  removeTemporaryDirectory,
+} from '../__fixtures__/temporary-directory.js';
+
+let root: string;
+let writeFile: WriteFile;
+
+function git(...arguments_: string[]): string {
+  return execFileSync('git', arguments_, { cwd: root, encoding: 'utf8', stdio: 'pipe' }).trim();
+}
+
+function readFile(relativePath: string): string {
+  return fs.readFileSync(path.join(root, relativePath), 'utf8');
+}
+
+beforeEach(() => {
+  // Ignore git config passed through the environment, which may point `core.hooksPath` elsewhere
+  vi.stubEnv('GIT_CONFIG_COUNT', '0');
+  ({ root, writeFile } = createTemporaryDirectory());
+  execSync('git init --quiet', { cwd: root, stdio: 'pipe' });
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  removeTemporaryDirectory(root);
+});
+
+describe('installHook', () => {
+  test('creates a plain git hook and removes it again', () => {
+    const { manager, hookPath } = installHook(root, { directories: ['src'], fix: false });
+
+    expect(manager).toBe('git');
+    expect(hookPath).toBe(path.join(root, '.git', 'hooks', 'pre-commit'));
+    expect(readFile('.git/hooks/pre-commit')).toBe(
+      '#!/bin/sh\n# >>> baptist >>>\nnpx --no -- baptist hook run "src"\n# <<< baptist <<<\n'
+    );
+    expect(fs.statSync(hookPath).mode & 0o111).not.toBe(0);
+
+    expect(uninstallHook(root)).toEqual([hookPath]);
+    expect(fs.existsSync(hookPath)).toBe(false);
+  });
+
+  test('keeps an existing husky hook and replaces a previous baptist hook', () => {
+    writeFile('.husky/pre-commit', 'npx lint-staged\n');
+
+    installHook(root, { directories: ['.'], fix: false });
+    const { manager } = installHook(root, { directories: ['.'], fix: true });
+
+    expect(manager).toBe('husky');
+    expect(readFile('.husky/pre-commit')).toBe(
+      'npx lint-staged\n# >>> baptist >>>\nnpx --no -- baptist hook run --fix "."\n# <<< baptist <<<\n'
+    );
+
+    uninstallHook(root);
+    expect(readFile('.husky/pre-commit')).toBe('npx lint-staged\n');
+  });
+
+  test('adds a command to the lefthook config', () => {
+    writeFile('lefthook.yml', 'pre-commit:\n  parallel: true\n  commands:\n    lint:\n      run: eslint .\n');
+
+    expect(installHook(root, { directories: ['.'], fix: false }).manager).toBe('lefthook');
+    expect(readFile('lefthook.yml')).toBe(
+      [
+        'pre-commit:',
+        '  parallel: true',
+        '  commands:',
+        '    # >>> baptist >>>',
+        '    baptist:',
+        '      run: npx --no -- baptist hook run "."',
+        '    # <<< baptist <<<',
+        '    lint:',
+        '      run: eslint .',
+        '',
+      ].join('\n')
+    );
+
+    uninstallHook(root);
+    expect(readFile('lefthook.yml')).toBe(
+      'pre-commit:\n  parallel: true\n  commands:\n    lint:\n      run: eslint .\n'
+    );
+  });
+
+  test('writes directories relative to the repository root when installed from a subdirectory', () => {
+    writeFile('packages/app/src/index.ts');
+
+    installHook(path.join(root, 'packages', 'app'), { directories: ['src', '.'], fix: false });
+
+    expect(readFile('.git/hooks/pre-commit')).toContain(
+      'npx --no -- baptist hook run "packages/app/src" "packages/app"'
+    );
+  });
+});
+
+describe('fixStagedFiles', () => {
+  const initialDirectory = process.cwd();
+
+  beforeEach(() => {
+    git('config', 'user.name', 'Baptist');
+    git('config', 'user.email', 'baptist@example.com');
+    writeFile('src/index.ts', "import UserCard from './UserCard';\n");
+    git('add', '.');
+    git('commit', '--quiet', '--message', 'Initial commit');
+    writeFile('src/UserCard.ts', 'export default 1;\n');
+    git('add', 'src/UserCard.ts');
+
+    // Hooks run from the repository root
+    process.chdir(root);
+  });
+
+  afterEach(() => {
+    process.chdir(initialDirectory);
+  });
+
+  test('renames staged files and stages the updated importers', async () => {
+    await fixStagedFiles({ directories: ['src'] });
+
+    expect(git('diff', '--cached', '--name-status')).toBe('M\tsrc/index.ts\nA\tsrc/user-card.ts');
+    expect(git('diff', '--name-only')).toBe('');
+  });
+
+  test('refuses to update importers with unstaged changes', async () => {
+    writeFile('src/index.ts', "import UserCard from './UserCard';\n\nconsole.log(UserCard);\n");
+
+    await expect(fixStagedFiles({ directories: ['src'] })).rejects.toBeInstanceOf(UnstagedChangesError);
+    expect(fs.readdirSync(path.join(root, 'src')).sort()).toEqual(['UserCard.ts', 'index.ts']);
+    expect(git('diff', '--cached', '--name-only')).toBe('src/UserCard.ts');
+  });
+});
+
+describe('addLefthookBlock', () => {
+  test('adds the pre-commit hook when there is none', () => {
+    expect(addLefthookBlock('pre-push:\n  commands:\n    test:\n      run: vitest\n', 'baptist hook run')).toBe(
+      [
+        'pre-push:',
+        '  commands:',
+        '    test:',
+        '      run: vitest',
+        '',
+        '# >>> baptist >>>',
+        'pre-commit:',
+        '  commands:',
+        '    baptist:',
+        '      run: baptist hook run',
+        '# <<< baptist <<<',
+        '',
+      ].join('\n')
+    );
+  });
+});
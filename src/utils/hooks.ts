@@ -0,0 +1,248 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { type ApplyResult, type PlanOptions, apply, plan } from '../api.js';
+import { getHooksDirectory, getRepositoryRoot, listUnstagedFiles, stageFiles } from './git.js';
+
+/**
+ * Where the pre-commit hook is set up: a plain git hook, or the config of husky or lefthook
+ */
+export type HookManager = 'git' | 'husky' | 'lefthook';
+
+export interface HookOptions {
+  /** Directories checked by the hook, relative to the repository root (to its directory for `installHook`) */
+  directories: string[];
+  /** Rename the staged files instead of blocking the commit */
+  fix: boolean;
+}
+
+/**
+ * Raised by `hook run --fix` when files it would rewrite have unstaged changes, which
+ * staging the rewritten files would sneak into the commit
+ */
+export class UnstagedChangesError extends Error {
+  readonly files: string[];
+
+  constructor(files: string[]) {
+    super(
+      `Cannot update the references in files with unstaged changes: ${files.join(', ')}. Stage or stash them first.`
+    );
+    this.name = 'UnstagedChangesError';
+    this.files = files;
+  }
+}
+
+export interface HookInstallResult {
+  manager: HookManager;
+  /** Path of the hook or config file the hook was added to */
+  hookPath: string;
+}
+
+/**
+ * Lines wrapping what baptist adds, so it can be removed again without touching the rest
+ */
+const BLOCK_START = '# >>> baptist >>>';
+const BLOCK_END = '# <<< baptist <<<';
+
+const LEFTHOOK_CONFIG_NAMES = ['lefthook.yml', 'lefthook.yaml', '.lefthook.yml', '.lefthook.yaml'];
+
+function getRoot(directory: string): string {
+  const repositoryRoot = getRepositoryRoot(directory);
+  if (!repositoryRoot) {
+    throw new Error('Git hooks can only be installed inside a git repository');
+  }
+
+  return repositoryRoot;
+}
+
+function findLefthookConfig(repositoryRoot: string): string | undefined {
+  return LEFTHOOK_CONFIG_NAMES.map((name) => path.join(repositoryRoot, name)).find((configPath) =>
+    fs.existsSync(configPath)
+  );
+}
+
+/**
+ * Detect the hook manager of a repository, falling back to plain git hooks
+ */
+export function detectHookManager(repositoryRoot: string): HookManager {
+  if (fs.existsSync(path.join(repositoryRoot, '.husky'))) {
+    return 'husky';
+  }
+
+  return findLefthookConfig(repositoryRoot) ? 'lefthook' : 'git';
+}
+
+/**
+ * Get the command the hook runs
+ */
+export function getHookCommand({ directories, fix }: HookOptions): string {
+  return [
+    'npx --no -- baptist hook run',
+    ...(fix ? ['--fix'] : []),
+    ...directories.map((directory) => `"${directory}"`),
+  ].join(' ');
+}
+
+/**
+ * Remove the block baptist added from the content of a hook or config file
+ */
+export function removeHookBlock(content: string): string {
+  const lines = content.split('\n');
+  const startIndex = lines.findIndex((line) => line.trim() === BLOCK_START);
+  const endIndex = lines.findIndex((line, index) => index > startIndex && line.trim() === BLOCK_END);
+
+  if (startIndex === -1 || endIndex === -1) {
+    return content;
+  }
+
+  return [...lines.slice(0, startIndex), ...lines.slice(endIndex + 1)].join('\n');
+}
+
+/**
+ * Add the hook block to a shell script hook, replacing a previous one
+ */
+export function addShellHookBlock(content: string, command: string, shebang: boolean): string {
+  const existingContent = removeHookBlock(content).trimEnd();
+  const header = existingContent === '' && shebang ? '#!/bin/sh' : existingContent;
+
+  return [...(header === '' ? [] : [header]), BLOCK_START, command, BLOCK_END, ''].join('\n');
+}
+
+/**
+ * Add the hook block to a lefthook config, as a `baptist` command of its `pre-commit` hook.
+ * Only the block and key layout lefthook documents is understood, as there is no YAML
+ * parser at hand.
+ */
+export function addLefthookBlock(content: string, command: string): string {
+  const lines = removeHookBlock(content).trimEnd().split('\n');
+  const hookIndex = lines.findIndex((line) => /^pre-commit\s*:\s*$/.test(line));
+
+  if (hookIndex === -1) {
+    return [
+      ...(lines.join('\n') === '' ? [] : [...lines, '']),
+      BLOCK_START,
+      'pre-commit:',
+      '  commands:',
+      '    baptist:',
+      `      run: ${command}`,
+      BLOCK_END,
+      '',
+    ].join('\n');
+  }
+
+  // Insert into the `commands` of the hook, or start them right below it
+  const hookEnd = lines.findIndex((line, index) => index > hookIndex && /^\S/.test(line));
+  const hookLines = lines.slice(hookIndex + 1, hookEnd === -1 ? undefined : hookEnd);
+  const commandsOffset = hookLines.findIndex((line) => /^\s+commands\s*:\s*$/.test(line));
+  const indentation = /^\s*/.exec(hookLines.find((line) => line.trim() !== '') ?? '')?.[0] || '  ';
+
+  const commandIndentation = indentation.repeat(2);
+  const block = [`${commandIndentation}baptist:`, `${commandIndentation}${indentation}run: ${command}`];
+  const insertIndex = hookIndex + 1 + (commandsOffset === -1 ? 0 : commandsOffset + 1);
+
+  return [
+    ...lines.slice(0, insertIndex),
+    // A `commands` key of its own goes inside the block, so it is removed along with it
+    ...(commandsOffset === -1
+      ? [`${indentation}${BLOCK_START}`, `${indentation}commands:`, ...block, `${indentation}${BLOCK_END}`]
+      : [`${commandIndentation}${BLOCK_START}`, ...block, `${commandIndentation}${BLOCK_END}`]),
+    ...lines.slice(insertIndex),
+    '',
+  ].join('\n');
+}
+
+/**
+ * Install a pre-commit hook running baptist on the staged files, through husky or
+ * lefthook if the repository uses them and as a plain git hook otherwise. Existing hooks
+ * are kept, a previously installed baptist hook is replaced. The directories are given
+ * relative to `directory` and written to the hook relative to the repository root, where
+ * git runs hooks from.
+ */
+export function installHook(directory: string, options: HookOptions): HookInstallResult {
+  const repositoryRoot = getRoot(directory);
+  const manager = detectHookManager(repositoryRoot);
+  const command = getHookCommand({
+    ...options,
+    directories: options.directories.map(
+      (hookDirectory) => path.relative(repositoryRoot, path.resolve(directory, hookDirectory)) || '.'
+    ),
+  });
+
+  if (manager === 'lefthook') {
+    const hookPath = findLefthookConfig(repositoryRoot) ?? path.join(repositoryRoot, 'lefthook.yml');
+    fs.writeFileSync(hookPath, addLefthookBlock(fs.readFileSync(hookPath, 'utf8'), command), 'utf8');
+    return { manager, hookPath };
+  }
+
+  // Husky runs its hooks through sh itself, plain git hooks need a shebang
+  const hookPath =
+    manager === 'husky'
+      ? path.join(repositoryRoot, '.husky', 'pre-commit')
+      : path.join(getHooksDirectory(repositoryRoot), 'pre-commit');
+  const content = fs.existsSync(hookPath) ? fs.readFileSync(hookPath, 'utf8') : '';
+
+  fs.mkdirSync(path.dirname(hookPath), { recursive: true });
+  fs.writeFileSync(hookPath, addShellHookBlock(content, command, manager === 'git'), 'utf8');
+  fs.chmodSync(hookPath, 0o755);
+
+  return { manager, hookPath };
+}
+
+/**
+ * Remove the baptist hook wherever it was installed. Hook files left with nothing but a
+ * shebang are deleted. Returns the paths of the files the hook was removed from.
+ */
+export function uninstallHook(directory: string): string[] {
+  const repositoryRoot = getRoot(directory);
+  const candidatePaths = [
+    path.join(getHooksDirectory(repositoryRoot), 'pre-commit'),
+    path.join(repositoryRoot, '.husky', 'pre-commit'),
+    ...LEFTHOOK_CONFIG_NAMES.map((name) => path.join(repositoryRoot, name)),
+  ];
+  const changedPaths: string[] = [];
+
+  for (const hookPath of new Set(candidatePaths)) {
+    if (!fs.existsSync(hookPath)) {
+      continue;
+    }
+
+    const content = fs.readFileSync(hookPath, 'utf8');
+    const updatedContent = removeHookBlock(content);
+    if (updatedContent === content) {
+      continue;
+    }
+
+    const isHookFile = path.basename(hookPath) === 'pre-commit';
+    if (isHookFile && updatedContent.replace(/^#!.*$/m, '').trim() === '') {
+      fs.rmSync(hookPath);
+    } else {
+      fs.writeFileSync(hookPath, updatedContent, 'utf8');
+    }
+
+    changedPaths.push(hookPath);
+  }
+
+  return changedPaths;
+}
+
+/**
+ * Rename the staged files for `hook run --fix`, update the references to them and stage
+ * the updated files. Refuses to run when a file to update has unstaged changes, as those
+ * would be staged along with the update.
+ */
+export async function fixStagedFiles(options: Omit<PlanOptions, 'staged' | 'force'>): Promise<ApplyResult> {
+  // Staged changes always leave the tree dirty, the run can still be undone from its journal
+  const renamePlan = await plan({ ...options, staged: true, force: true });
+
+  const unstagedFiles = listUnstagedFiles(renamePlan.importUpdates.map((update) => update.originalFilePath));
+  if (unstagedFiles.length > 0) {
+    throw new UnstagedChangesError(unstagedFiles);
+  }
+
+  const result = await apply(renamePlan);
+
+  // The moves are staged by `git mv`, the updated files are not
+  stageFiles(result.updatedFiles);
+
+  return result;
+}
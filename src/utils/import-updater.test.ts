@@ -0,0 +1,209 @@
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+
+import { getItemsToRename, scanDirectories } from './file-scanner.js';
+import { createReferenceFilter, findImportReferences, planImportUpdates } from './import-updater.js';
+import { createRenameMap } from './rename-map.js';
+import {
+  type WriteFile,
+  createTemporaryDirectory,
+  removeTemporaryDirectory,
+} from '../__fixtures__/temporary-directory.js';
+
+let root: string;
+let writeFile: WriteFile;
+
+async function planUpdates(aliases?: Record<string, string>): Promise<Record<string, string>> {
+  const renameMap = createRenameMap(getItemsToRename(await scanDirectories([root])));
+  const updates = await planImportUpdates([root], { renameMap, aliases });
+
+  return Object.fromEntries(
+    updates.map((update) => [path.relative(root, update.filePath).split(path.sep).join('/'), update.updatedContent])
+  );
+}
+
+beforeEach(() => {
+  ({ root, writeFile } = createTemporaryDirectory());
+});
+
+afterEach(() => {
+  removeTemporaryDirectory(root);
+});
+
+describe('planImportUpdates', () => {
+  test('rewrites specifiers whose target is renamed', async () => {
+    writeFile('UserCard.tsx', 'export default 1;');
+    writeFile('index.ts', "import UserCard from './UserCard';\n");
+
+    expect(await planUpdates()).toEqual({ 'index.ts': "import UserCard from './user-card';\n" });
+  });
+
+  test('keeps the extension, .js mapping and directory form of the specifier', async () => {
+    writeFile('UserCard.tsx', 'export default 1;');
+    writeFile('UiKit/index.ts', 'export {};');
+    writeFile(
+      'index.ts',
+      ["import a from './UserCard.js';", "import b from './UserCard.tsx';", "export * from './UiKit';"].join('\n')
+    );
+
+    const updates = await planUpdates();
+
+    expect(updates['index.ts']).toBe(
+      ["import a from './user-card.js';", "import b from './user-card.tsx';", "export * from './ui-kit';"].join('\n')
+    );
+  });
+
+  test('leaves specifiers pointing at files that did not move untouched', async () => {
+    writeFile('dist/FooBar.js', 'export {};');
+    writeFile('helpers.ts', 'export {};');
+    writeFile('index.ts', "import './dist/FooBar.js';\nimport './helpers';\nimport './Missing';\n");
+
+    expect(await planUpdates()).toEqual({});
+  });
+
+  test('recomputes relative paths of files inside renamed directories', async () => {
+    writeFile('SharedUtils/Format.ts', 'export {};');
+    writeFile('Components/Button.tsx', "import '../SharedUtils/Format';\nimport '../helpers';\n");
+    writeFile('helpers.ts', 'export {};');
+
+    expect(await planUpdates()).toEqual({
+      'components/button.tsx': "import '../shared-utils/format';\nimport '../helpers';\n",
+    });
+  });
+
+  test('rewrites tsconfig path aliases, following extends', async () => {
+    writeFile('tsconfig.base.json', JSON.stringify({ compilerOptions: { paths: { '@/*': ['./src/*'] } } }));
+    writeFile('tsconfig.json', '{\n  // comments are allowed\n  "extends": "./tsconfig.base.json"\n}');
+    writeFile('src/Components/DataTable.tsx', 'export {};');
+    writeFile('src/index.ts', "import '@/Components/DataTable';\nimport 'react';\n");
+
+    expect(await planUpdates()).toEqual({ 'src/index.ts': "import '@/components/data-table';\nimport 'react';\n" });
+  });
+
+  test('rewrites bundler aliases', async () => {
+    writeFile('src/UserCard.vue', '<template />');
+    writeFile('src/app.js', "import UserCard from '~/UserCard.vue';\n");
+
+    const aliases = { '~': path.relative(process.cwd(), path.join(root, 'src')) };
+
+    expect(await planUpdates(aliases)).toEqual({ 'src/app.js': "import UserCard from '~/user-card.vue';\n" });
+  });
+
+  test('rewrites stylesheet imports, Sass partials and url() references', async () => {
+    writeFile('UserCard/UserCard.module.scss', "@use '../Theme/Colors';\n@import '../Theme/Mixins.scss';\n");
+    writeFile('Theme/_Colors.scss', '');
+    writeFile('Theme/_Mixins.scss', '');
+    writeFile('Images/HeroImage.png', '');
+    writeFile(
+      'main.css',
+      "@import 'UserCard/UserCard.module.scss';\nbody { background: url(./Images/HeroImage.png); }\n"
+    );
+
+    expect(await planUpdates()).toEqual({
+      'user-card/user-card.module.scss': "@use '../theme/colors';\n@import '../theme/mixins.scss';\n",
+      'main.css': "@import 'user-card/user-card.module.scss';\nbody { background: url(./images/hero-image.png); }\n",
+    });
+  });
+
+  test('rewrites HTML attributes and Markdown links, keeping their form', async () => {
+    writeFile('Docs/GettingStarted.md', '');
+    writeFile('Assets/My Logo.png', '');
+    writeFile('MainApp.ts', '');
+    writeFile('index.html', '<script src="MainApp.ts"></script>\n<a href="https://example.com/Page">x</a>\n');
+    writeFile(
+      'readme.md',
+      '[Start](Docs/GettingStarted.md#setup) ![logo](./Assets/My%20Logo.png)\n`[code](Docs/GettingStarted.md)`\n'
+    );
+
+    expect(await planUpdates()).toEqual({
+      'index.html': '<script src="main-app.ts"></script>\n<a href="https://example.com/Page">x</a>\n',
+      'readme.md':
+        '[Start](docs/getting-started.md#setup) ![logo](./assets/my%20logo.png)\n`[code](Docs/GettingStarted.md)`\n',
+    });
+  });
+});
+
+describe('planImportUpdates in workspaces', () => {
+  test('rewrites deep imports of other workspace packages', async () => {
+    writeFile('package.json', JSON.stringify({ workspaces: ['packages/*'] }));
+    writeFile('packages/ui/package.json', JSON.stringify({ name: '@acme/ui' }));
+    writeFile('packages/ui/src/Components/DataTable.tsx', 'export {};');
+    writeFile(
+      'packages/kit/package.json',
+      JSON.stringify({ name: '@acme/kit', exports: { './Table': './Table.ts', './*': './lib/*.ts' } })
+    );
+    writeFile('packages/kit/Table.ts', 'export {};');
+    writeFile('packages/kit/lib/FormField.ts', 'export {};');
+    writeFile('packages/web/package.json', JSON.stringify({ name: '@acme/web' }));
+    writeFile(
+      'packages/web/app.ts',
+      [
+        "import '@acme/ui/src/Components/DataTable';",
+        "import '@acme/kit/FormField';",
+        "import '@acme/kit/Table';",
+        "import '@acme/missing/Thing';",
+      ].join('\n')
+    );
+
+    const packageDirectory = path.join(root, 'packages');
+    const renameMap = createRenameMap(
+      getItemsToRename(await scanDirectories([path.join(packageDirectory, 'ui'), path.join(packageDirectory, 'kit')]))
+    );
+    const updates = await planImportUpdates([path.join(packageDirectory, 'ui'), path.join(packageDirectory, 'kit')], {
+      renameMap,
+    });
+
+    expect(updates.map((update) => [path.relative(root, update.filePath), update.updatedContent])).toEqual([
+      [
+        path.join('packages', 'web', 'app.ts'),
+        [
+          "import '@acme/ui/src/components/data-table';",
+          "import '@acme/kit/form-field';",
+          "import '@acme/kit/Table';",
+          "import '@acme/missing/Thing';",
+        ].join('\n'),
+      ],
+    ]);
+  });
+});
+
+describe('findImportReferences', () => {
+  test('resolves relative and aliased specifiers to their targets', async () => {
+    writeFile('src/UserCard.tsx', 'export default 1;');
+    writeFile(
+      'src/index.ts',
+      "import './UserCard';\nimport '~/UserCard.tsx?raw';\nimport 'react';\nimport './Missing';\n"
+    );
+
+    const aliases = { '~': path.relative(process.cwd(), path.join(root, 'src')) };
+    const references = await findImportReferences([root], { aliases });
+
+    expect(references.map((reference) => [reference.specifier, path.relative(root, reference.targetPath)])).toEqual([
+      ['./UserCard', path.join('src', 'UserCard.tsx')],
+      ['~/UserCard.tsx?raw', path.join('src', 'UserCard.tsx')],
+    ]);
+  });
+});
+
+describe('createReferenceFilter', () => {
+  test('matches texts naming a renamed path or going through a renamed alias target', () => {
+    const renameMap = new Map([
+      [path.join(root, 'src', 'UserCard.tsx'), path.join(root, 'src', 'user-card.tsx')],
+      [path.join(root, 'src', 'styles', '_Theme.scss'), path.join(root, 'src', 'styles', '_theme.scss')],
+      [path.join(root, 'Shared'), path.join(root, 'shared')],
+    ]);
+    const aliases = [
+      { pattern: '@ui/*', targets: [path.join(root, 'src', '*')] },
+      { pattern: '$lib', targets: [path.join(root, 'Shared', 'index.ts')] },
+    ];
+    const mayReference = createReferenceFilter(renameMap);
+
+    expect(mayReference("import './usercard';", [])).toBe(true);
+    expect(mayReference("@use 'styles/theme';", [])).toBe(true);
+    expect(mayReference("import '../shared/logger';", [])).toBe(true);
+    expect(mayReference("import { log } from '$lib';", aliases)).toBe(true);
+    expect(mayReference("import { log } from '$lib';", [])).toBe(false);
+    expect(mayReference("import Button from '@ui/Button';", aliases)).toBe(false);
+    expect(createReferenceFilter(new Map())("import './UserCard';", [])).toBe(false);
+  });
+});
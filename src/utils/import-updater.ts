@@ -1,147 +1,453 @@
 import fs from 'node:fs';
 import path from 'node:path';
 
-import { camelCaseToKebabCase } from './helpers.js';
+import { DEFAULT_CONCURRENCY, type FileIndex, createFileIndex, listIndexedFiles } from './file-list.js';
+import { mapWithConcurrency } from './helpers.js';
+import {
+  type ResolvedModule,
+  getRenamedTargetPath,
+  resolveModulePath,
+  resolveReferencePath,
+  resolveStylesheetPath,
+  toRelativeSpecifier,
+} from './module-resolver.js';
+import {
+  type ModuleSpecifier,
+  type SpecifierKind,
+  findModuleSpecifiers,
+  replaceModuleSpecifiers,
+} from './module-specifiers.js';
+import {
+  type AliasLookup,
+  type PathAlias,
+  createAliasLookup,
+  createAliasesFromMap,
+  resolveAliasedSpecifier,
+  toAliasedSpecifier,
+} from './path-aliases.js';
+import type { PathFilter } from './path-filter.js';
+import { type RenameMap, getRenamedPath } from './rename-map.js';
+import { type Workspace, createWorkspaceAliases, findWorkspace } from './workspaces.js';
 
 /**
- * File extensions that typically contain import statements
+ * File extensions that typically contain import statements or path references
  */
-const IMPORT_FILE_EXTENSIONS = new Set(['.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs', '.vue', '.svelte']);
+export const IMPORT_FILE_EXTENSIONS = [
+  '.js',
+  '.jsx',
+  '.ts',
+  '.tsx',
+  '.mjs',
+  '.cjs',
+  '.mts',
+  '.cts',
+  '.vue',
+  '.svelte',
+  '.css',
+  '.scss',
+  '.sass',
+  '.less',
+  '.html',
+  '.htm',
+  '.md',
+  '.markdown',
+];
+
+export interface ImportUpdateOptions {
+  /** Old-to-new paths of everything that is (or will be) renamed */
+  renameMap: RenameMap;
+  /** Bundler-style aliases such as `{ "@": "./src" }`, relative to the working directory */
+  aliases?: Record<string, string>;
+  /** Decides which files are never rewritten, defaults to the default excludes */
+  pathFilter?: PathFilter;
+  /** Extensions of the files whose imports are rewritten, defaults to `IMPORT_FILE_EXTENSIONS` */
+  extensions?: string[];
+  /** Index of the directory tree, shared with the other steps of a run */
+  fileIndex?: FileIndex;
+}
+
+export interface ImportUpdate {
+  /** Path of the file before any renames, where the original content was read from */
+  originalFilePath: string;
+  /** Path of the file after all renames, where the updated content is written to */
+  filePath: string;
+  originalContent: string;
+  updatedContent: string;
+}
+
+export interface ImportReference {
+  /** File containing the module specifier */
+  filePath: string;
+  specifier: string;
+  /** Absolute path of the file or directory the specifier resolves to, before any renames */
+  targetPath: string;
+}
 
 /**
- * Regex patterns to match import statements
+ * Check whether a specifier points at a path rather than a package
  */
-const IMPORT_PATTERNS = [
-  // ES6 imports: import ... from '...'
-  /import\s+.*?\s+from\s+['"]([^'"]+)['"]/g,
-  // CommonJS require: require('...')
-  /require\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
-  // Dynamic imports: import('...')
-  /import\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
-];
+function isPathSpecifier(specifier: string): boolean {
+  return (
+    specifier === '.' ||
+    specifier === '..' ||
+    specifier.startsWith('./') ||
+    specifier.startsWith('../') ||
+    specifier.startsWith('/')
+  );
+}
 
 /**
- * Update import statements in a file
+ * Check whether a document reference points outside the project: a URL with a scheme
+ * (`https:`, `data:`, `sass:math`), a protocol-relative URL or a template placeholder
  */
-function updateImportsInFile(filePath: string): boolean {
-  if (!fs.existsSync(filePath)) {
-    return false;
+function isExternalReference(specifier: string): boolean {
+  return /^[a-z][\d+.a-z-]*:/i.test(specifier) || specifier.startsWith('//') || /{{|\${|<%/.test(specifier);
+}
+
+/**
+ * Decode a percent-encoded document reference, e.g. `My%20Notes.md`
+ */
+function decodeReference(specifier: string): string {
+  try {
+    return decodeURI(specifier);
+  } catch {
+    return specifier;
   }
+}
+
+const RESOLVERS: Record<SpecifierKind, (targetPath: string) => ResolvedModule | undefined> = {
+  module: resolveModulePath,
+  stylesheet: resolveStylesheetPath,
+  url: resolveReferencePath,
+};
 
-  const fileExtension = path.extname(filePath);
-  if (!IMPORT_FILE_EXTENSIONS.has(fileExtension)) {
-    return false;
+interface ResolvedSpecifier {
+  resolved: ResolvedModule;
+  /** Alias the specifier goes through, if it is not a path */
+  alias?: PathAlias;
+}
+
+/**
+ * Resolve the path part of a specifier (without query string or hash) found in a file.
+ * Stylesheet imports and document references are relative to the file even without a
+ * leading `./`, aliases are tried when that does not resolve.
+ */
+function resolveSpecifier(
+  pathPart: string,
+  kind: SpecifierKind,
+  absoluteFilePath: string,
+  aliases: PathAlias[]
+): ResolvedSpecifier | undefined {
+  if (kind !== 'module' && (pathPart === '' || isExternalReference(pathPart))) {
+    return undefined;
   }
 
-  let content = fs.readFileSync(filePath, 'utf8');
-  let hasChanges = false;
+  if (kind !== 'module' || isPathSpecifier(pathPart)) {
+    const targetPath = kind === 'url' ? decodeReference(pathPart) : pathPart;
+    const resolved = RESOLVERS[kind](path.resolve(path.dirname(absoluteFilePath), targetPath));
+    if (resolved || isPathSpecifier(pathPart)) {
+      return resolved && { resolved };
+    }
+  }
 
-  for (const pattern of IMPORT_PATTERNS) {
-    content = content.replace(pattern, (match, importPath) => {
-      // Convert the import path to kebab-case
-      const kebabImportPath = convertImportPathToKebabCase(importPath);
+  return resolveAliasedSpecifier(pathPart, aliases, RESOLVERS[kind]);
+}
 
-      if (importPath !== kebabImportPath) {
-        hasChanges = true;
-        return match.replace(importPath, kebabImportPath);
-      }
+/**
+ * Compute the new value of a module specifier. The specifier is resolved against the
+ * original tree and only changes when its target or the importing file moves. Aliased
+ * specifiers keep their alias form and only change when their target moves.
+ */
+function updateSpecifier(
+  { value, kind }: ModuleSpecifier,
+  filePath: string,
+  newFilePath: string,
+  renameMap: RenameMap,
+  aliases: PathAlias[],
+  mayReference: ReferenceFilter
+): string {
+  // Keep query strings and hashes (e.g. `./icon.svg?raw`) out of the resolution
+  const queryIndex = value.search(/[?#]/);
+  const pathPart = queryIndex === -1 ? value : value.slice(0, queryIndex);
+  const query = queryIndex === -1 ? '' : value.slice(queryIndex);
 
-      return match;
-    });
+  // Resolving touches the disk, skip specifiers that cannot point at a renamed path
+  if (newFilePath === filePath && !mayReference(pathPart, aliases)) {
+    return value;
+  }
+
+  const target = resolveSpecifier(pathPart, kind, filePath, aliases);
+  if (!target) {
+    return value;
+  }
+
+  const { resolved, alias } = target;
+  const renamedPath = getRenamedPath(renameMap, resolved.resolvedPath);
+  if (renamedPath === resolved.resolvedPath && (alias || newFilePath === filePath)) {
+    return value;
+  }
+
+  const newTargetPath = getRenamedTargetPath(resolved, renamedPath);
+  if (alias) {
+    // Fall back to a relative specifier if the new location is out of reach of every alias,
+    // imports of another workspace package keep the package name instead
+    const aliasedSpecifier = toAliasedSpecifier(newTargetPath, aliases, alias);
+    if (aliasedSpecifier === undefined && alias.isPackage) {
+      return value;
+    }
+
+    return (aliasedSpecifier ?? toRelativeSpecifier(path.dirname(newFilePath), newTargetPath)) + query;
   }
 
-  if (hasChanges) {
-    fs.writeFileSync(filePath, content, 'utf8');
-    return true;
+  let newPathPart = path.isAbsolute(pathPart)
+    ? newTargetPath
+    : toRelativeSpecifier(path.dirname(newFilePath), newTargetPath);
+
+  // Keep the form of document references, which may omit the `./` and be percent-encoded
+  if (!isPathSpecifier(pathPart) && newPathPart.startsWith('./')) {
+    newPathPart = newPathPart.slice(2);
   }
 
-  return false;
+  if (kind === 'url' && decodeReference(pathPart) !== pathPart) {
+    newPathPart = encodeURI(newPathPart);
+  }
+
+  const trailingSlash = pathPart.endsWith('/') && !newPathPart.endsWith('/') ? '/' : '';
+
+  return newPathPart + trailingSlash + query;
 }
 
 /**
- * Convert an import path to kebab-case
+ * Tells whether a text may mention a renamed path, given the aliases that apply
  */
-function convertImportPathToKebabCase(importPath: string): string {
-  // Don't modify external packages (no relative path indicators)
-  if (!importPath.startsWith('.') && !importPath.startsWith('/')) {
-    return importPath;
+export type ReferenceFilter = (text: string, aliases: PathAlias[]) => boolean;
+
+function escapeRegExp(value: string): string {
+  return value.replaceAll(/[$()*+.?[\\\]^{|}]/g, String.raw`\$&`);
+}
+
+/**
+ * Create a cheap filter for texts that may reference a renamed path. Any specifier
+ * pointing at a renamed file or into a renamed directory mentions its name (without
+ * extension, leading underscore or percent-encoding), unless it goes through an alias
+ * whose target is renamed itself. False positives are fine, they are resolved as usual.
+ */
+export function createReferenceFilter(renameMap: RenameMap): ReferenceFilter {
+  const terms = new Set<string>();
+  for (const originalPath of renameMap.keys()) {
+    const name = path
+      .basename(originalPath)
+      .replace(/^[._]+/, '')
+      .split('.')[0];
+    terms.add(name).add(encodeURI(name));
   }
 
-  const parts = importPath.split('/');
-  const convertedParts = parts.map((part) => {
-    // Don't convert '.' or '..' or empty strings
-    if (part === '.' || part === '..' || part === '') {
-      return part;
+  const pattern =
+    terms.size === 0 ? undefined : new RegExp([...terms].map((term) => escapeRegExp(term)).join('|'), 'i');
+  const aliasPrefixes = new Map<PathAlias, string | undefined>();
+
+  // Aliases without a renamed target never hide a renamed name
+  const getAliasPrefix = (alias: PathAlias) => {
+    if (!aliasPrefixes.has(alias)) {
+      const isRenamed = alias.targets.some((target) => {
+        const basePath = path.resolve(target.split('*')[0]);
+        return getRenamedPath(renameMap, basePath) !== basePath;
+      });
+      aliasPrefixes.set(alias, isRenamed ? alias.pattern.split('*')[0].toLowerCase() : undefined);
     }
 
-    // Handle files with extensions
-    const extension = path.extname(part);
-    if (extension) {
-      const nameWithoutExtension = path.basename(part, extension);
-      return camelCaseToKebabCase(nameWithoutExtension) + extension;
+    return aliasPrefixes.get(alias);
+  };
+
+  return (text, aliases) => {
+    if (pattern === undefined) {
+      return false;
     }
 
-    // Handle directory names or files without extensions
-    return camelCaseToKebabCase(part);
-  });
+    if (pattern.test(text)) {
+      return true;
+    }
 
-  return convertedParts.join('/');
+    const lowerCaseText = text.toLowerCase();
+    return aliases.some((alias) => {
+      const prefix = getAliasPrefix(alias);
+      return prefix !== undefined && lowerCaseText.includes(prefix);
+    });
+  };
 }
 
 /**
- * Update import statements in all files within the processed directories
+ * Compute the updated content of a file's import statements. Must be called before the
+ * renames are applied, as specifiers are resolved against the current tree. Returns
+ * `undefined` when the file does not need any changes.
  */
-export function updateImportsInFiles(directories: string[]): string[] {
-  const updatedFiles: string[] = [];
+export function updateImportsInContent(
+  filePath: string,
+  originalContent: string,
+  renameMap: RenameMap,
+  aliases: PathAlias[] = [],
+  mayReference: ReferenceFilter = createReferenceFilter(renameMap)
+): ImportUpdate | undefined {
+  const absoluteFilePath = path.resolve(filePath);
+  const newAbsoluteFilePath = getRenamedPath(renameMap, absoluteFilePath);
 
-  // Scan all files in the directories
-  for (const directory of directories) {
-    const files = getAllFilesRecursively(directory);
+  // Files that stay in place and mention no renamed path are never parsed
+  if (newAbsoluteFilePath === absoluteFilePath && !mayReference(originalContent, aliases)) {
+    return undefined;
+  }
 
-    for (const file of files) {
-      const wasUpdated = updateImportsInFile(file);
-      if (wasUpdated) {
-        updatedFiles.push(file);
-      }
-    }
+  const specifiers = findModuleSpecifiers(originalContent, filePath);
+
+  // Point each module specifier at the new location of its target, editing it in place
+  const updatedContent = replaceModuleSpecifiers(originalContent, specifiers, (_value, specifier) =>
+    updateSpecifier(specifier, absoluteFilePath, newAbsoluteFilePath, renameMap, aliases, mayReference)
+  );
+
+  if (updatedContent === originalContent) {
+    return undefined;
   }
 
-  return updatedFiles;
+  return {
+    originalFilePath: filePath,
+    filePath: path.isAbsolute(filePath) ? newAbsoluteFilePath : path.relative(process.cwd(), newAbsoluteFilePath),
+    originalContent,
+    updatedContent,
+  };
 }
 
 /**
- * Recursively get all files in a directory
+ * Compute the updated content of a file's import statements without writing it, see
+ * `updateImportsInContent`
  */
-function getAllFilesRecursively(directoryPath: string): string[] {
-  const files: string[] = [];
+export async function updateImportsInFile(
+  filePath: string,
+  renameMap: RenameMap,
+  aliases: PathAlias[] = [],
+  extensions: string[] = IMPORT_FILE_EXTENSIONS
+): Promise<ImportUpdate | undefined> {
+  if (!extensions.includes(path.extname(filePath))) {
+    return undefined;
+  }
+
+  const originalContent = await fs.promises.readFile(filePath, 'utf8').catch(() => {});
+
+  return originalContent === undefined
+    ? undefined
+    : updateImportsInContent(filePath, originalContent, renameMap, aliases);
+}
 
-  if (!fs.existsSync(directoryPath) || !fs.statSync(directoryPath).isDirectory()) {
-    return files;
+/**
+ * List the files whose imports are checked, with the aliases that apply to each. Inside a
+ * workspace, the files of every workspace package are included, as those may import the
+ * processed directories through their package names.
+ */
+async function listImportFiles(
+  directories: string[],
+  options: Omit<ImportUpdateOptions, 'renameMap'>
+): Promise<{ files: string[]; getAliases: AliasLookup; concurrency: number }> {
+  const fileIndex = options.fileIndex ?? createFileIndex({ pathFilter: options.pathFilter });
+  const extensions = options.extensions ?? IMPORT_FILE_EXTENSIONS;
+  const workspaces = new Map<string, Workspace>();
+
+  for (const directory of directories) {
+    const workspace = await findWorkspace(directory, fileIndex);
+    if (workspace) {
+      workspaces.set(workspace.rootDirectory, workspace);
+    }
   }
 
-  const entries = fs.readdirSync(directoryPath, { withFileTypes: true });
-
-  for (const entry of entries) {
-    const fullPath = path.join(directoryPath, entry.name);
-
-    // Skip certain directories
-    // TODO: Make configurable
-    if (entry.isDirectory()) {
-      const directoryName = entry.name;
-      if (
-        directoryName.startsWith('.') ||
-        directoryName === 'node_modules' ||
-        directoryName === 'dist' ||
-        directoryName === 'build'
-      ) {
-        continue;
-      }
+  const packageDirectories = [...workspaces.values()].flatMap((workspace) =>
+    workspace.packages.map((workspacePackage) => path.relative(process.cwd(), workspacePackage.directory) || '.')
+  );
 
-      files.push(...getAllFilesRecursively(fullPath));
-    } else if (entry.isFile()) {
-      files.push(fullPath);
+  // Package directories often contain or overlap the processed directories
+  const files = new Map<string, string>();
+  for (const directory of [...directories, ...packageDirectories]) {
+    const stats = await fs.promises.stat(directory).catch(() => {});
+    if (!stats?.isDirectory()) {
+      continue;
+    }
+
+    for (const file of await listIndexedFiles(fileIndex, directory)) {
+      if (extensions.includes(path.extname(file)) && !files.has(path.resolve(file))) {
+        files.set(path.resolve(file), file);
+      }
     }
   }
 
-  return files;
+  return {
+    files: [...files.values()],
+    concurrency: fileIndex.concurrency,
+    getAliases: createAliasLookup([
+      ...createAliasesFromMap(options.aliases ?? {}, process.cwd()),
+      ...[...workspaces.values()].flatMap((workspace) => createWorkspaceAliases(workspace)),
+    ]),
+  };
+}
+
+/**
+ * Compute the import updates for all files within the processed directories (and the
+ * other packages of their workspace) without touching the disk. Must be called before
+ * the renames are applied.
+ */
+export async function planImportUpdates(directories: string[], options: ImportUpdateOptions): Promise<ImportUpdate[]> {
+  const { files, getAliases, concurrency } = await listImportFiles(directories, options);
+  const mayReference = createReferenceFilter(options.renameMap);
+
+  const updates = await mapWithConcurrency(files, concurrency, async (file) => {
+    const content = await fs.promises.readFile(file, 'utf8');
+    return updateImportsInContent(file, content, options.renameMap, getAliases(file), mayReference);
+  });
+
+  return updates.filter((update) => update !== undefined);
+}
+
+/**
+ * Find every module specifier within the processed directories (and the other packages of
+ * their workspace) that resolves to a local file or directory, to tell how many imports a
+ * rename affects
+ */
+export async function findImportReferences(
+  directories: string[],
+  options: Omit<ImportUpdateOptions, 'renameMap'> = {}
+): Promise<ImportReference[]> {
+  const { files, getAliases, concurrency } = await listImportFiles(directories, options);
+
+  const references = await mapWithConcurrency(files, concurrency, async (filePath) => {
+    const absoluteFilePath = path.resolve(filePath);
+    const aliases = getAliases(filePath);
+    const content = await fs.promises.readFile(filePath, 'utf8');
+
+    return findModuleSpecifiers(content, filePath).flatMap(({ value: specifier, kind }) => {
+      const target = resolveSpecifier(specifier.split(/[?#]/)[0], kind, absoluteFilePath, aliases);
+      return target ? [{ filePath, specifier, targetPath: target.resolved.resolvedPath }] : [];
+    });
+  });
+
+  return references.flat();
+}
+
+export interface ApplyImportUpdatesOptions {
+  /** Called before each file is written, so a write that fails halfway can still be restored */
+  onBeforeWrite?: (update: ImportUpdate) => void;
+  /** Called after each file is written */
+  onWrite?: (update: ImportUpdate) => void;
+  /** Number of files written at once */
+  concurrency?: number;
+}
+
+/**
+ * Write previously computed import updates to disk, after the renames have been applied
+ */
+export async function applyImportUpdates(
+  updates: ImportUpdate[],
+  { onBeforeWrite, onWrite, concurrency = DEFAULT_CONCURRENCY }: ApplyImportUpdatesOptions = {}
+): Promise<string[]> {
+  await mapWithConcurrency(updates, concurrency, async (update) => {
+    onBeforeWrite?.(update);
+    await fs.promises.writeFile(update.filePath, update.updatedContent, 'utf8');
+    onWrite?.(update);
+  });
+
+  return updates.map((update) => update.filePath);
 }
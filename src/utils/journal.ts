@@ -0,0 +1,127 @@
+import { createHash } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+
+import type { ImportUpdate } from './import-updater.js';
+import type { MoveOperation } from '../types/index.js';
+
+/**
+ * Directory (relative to the working directory) where run journals are stored
+ */
+export const JOURNAL_DIRECTORY = path.join('.baptist', 'journals');
+
+export interface JournalFileChange {
+  /** Absolute path of the file after the run */
+  path: string;
+  beforeHash: string;
+  afterHash: string;
+  /** Content before the run, needed to restore files outside of git */
+  beforeContent: string;
+}
+
+/**
+ * Machine-readable record of a run, used to revert it with `baptist undo`
+ */
+export interface Journal {
+  version: 1;
+  createdAt: string;
+  cwd: string;
+  directories: string[];
+  /** Whether the moves were made with `git mv` */
+  useGit: boolean;
+  /** Every move in the order it was executed (absolute paths), including temporary hops */
+  moves: MoveOperation[];
+  files: JournalFileChange[];
+  undoneAt?: string;
+}
+
+/**
+ * Hash file content so later modifications can be detected
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Create an empty journal for a run
+ */
+export function createJournal(directories: string[], useGit: boolean): Journal {
+  return {
+    version: 1,
+    createdAt: new Date().toISOString(),
+    cwd: process.cwd(),
+    directories,
+    useGit,
+    moves: [],
+    files: [],
+  };
+}
+
+/**
+ * Record a completed move
+ */
+export function recordMove(journal: Journal, operation: MoveOperation): void {
+  journal.moves.push({ from: path.resolve(operation.from), to: path.resolve(operation.to) });
+}
+
+/**
+ * Record a file whose content was rewritten
+ */
+export function recordFileChange(journal: Journal, update: ImportUpdate): void {
+  journal.files.push({
+    path: path.resolve(update.filePath),
+    beforeHash: hashContent(update.originalContent),
+    afterHash: hashContent(update.updatedContent),
+    beforeContent: update.originalContent,
+  });
+}
+
+/**
+ * Write a journal to the journal directory (or back to `journalPath` if given) and
+ * return its path
+ */
+export function writeJournal(journal: Journal, journalPath?: string): string {
+  const targetPath =
+    journalPath ?? path.join(journal.cwd, JOURNAL_DIRECTORY, `${journal.createdAt.replaceAll(/[:.]/g, '-')}.json`);
+
+  fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+  fs.writeFileSync(targetPath, JSON.stringify(journal, undefined, 2) + '\n', 'utf8');
+
+  return targetPath;
+}
+
+/**
+ * Read a journal from disk
+ */
+export function readJournal(journalPath: string): Journal {
+  if (!fs.existsSync(journalPath)) {
+    throw new Error(`Journal does not exist: ${journalPath}`);
+  }
+
+  const journal = JSON.parse(fs.readFileSync(journalPath, 'utf8')) as Journal;
+  if (journal.version !== 1 || !Array.isArray(journal.moves) || !Array.isArray(journal.files)) {
+    throw new Error(`Not a valid baptist journal: ${journalPath}`);
+  }
+
+  return journal;
+}
+
+/**
+ * Find the most recent journal that has not been undone yet in the journal directory of
+ * the working directory
+ */
+export function findLatestJournal(cwd: string = process.cwd()): string | undefined {
+  const journalDirectory = path.join(cwd, JOURNAL_DIRECTORY);
+  if (!fs.existsSync(journalDirectory)) {
+    return undefined;
+  }
+
+  // Journal names are ISO timestamps, so sorting them in reverse puts the newest first
+  const journalPaths = fs
+    .readdirSync(journalDirectory)
+    .filter((name) => name.endsWith('.json'))
+    .sort((a, b) => b.localeCompare(a))
+    .map((name) => path.join(journalDirectory, name));
+
+  return journalPaths.find((journalPath) => !readJournal(journalPath).undoneAt);
+}
@@ -0,0 +1,77 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+
+import { type LogEntry, createLogEntry, writeLog } from './logger.js';
+import { createTemporaryDirectory, removeTemporaryDirectory } from '../__fixtures__/temporary-directory.js';
+
+let root: string;
+
+function createEntry(directory: string): LogEntry {
+  return createLogEntry(
+    [directory],
+    [
+      {
+        originalPath: `${directory}/UserCard.tsx`,
+        newPath: `${directory}/user-card.tsx`,
+        isDirectory: false,
+        needsRename: true,
+      },
+    ],
+    [`${directory}/index.ts`],
+    {
+      flags: { case: 'kebab', force: false },
+      gitHeadBefore: 'abc123',
+      gitHeadAfter: 'abc123',
+      durations: { scanning: 12, renaming: 3 },
+      warnings: ['Skipped src/fooBar'],
+    }
+  );
+}
+
+beforeEach(() => {
+  root = createTemporaryDirectory().root;
+});
+
+afterEach(() => {
+  removeTemporaryDirectory(root);
+});
+
+describe('writeLog', () => {
+  test('keeps one JSON entry per run in append mode', () => {
+    const filePath = path.join(root, 'logs', 'baptist.json');
+
+    writeLog(createEntry('src'), { format: 'json', filePath, append: true });
+    writeLog(createEntry('lib'), { format: 'json', filePath, append: true });
+
+    const entries = JSON.parse(fs.readFileSync(filePath, 'utf8')) as LogEntry[];
+    expect(entries.map((entry) => entry.directories)).toEqual([['src'], ['lib']]);
+    expect(entries[0].durations).toEqual({ scanning: 12, renaming: 3 });
+  });
+
+  test('replaces the log unless appending', () => {
+    const filePath = path.join(root, 'baptist.log');
+
+    writeLog(createEntry('src'), { format: 'text', filePath, append: false });
+    writeLog(createEntry('lib'), { format: 'text', filePath, append: false });
+
+    const content = fs.readFileSync(filePath, 'utf8');
+    expect(content).not.toContain('Processed directories: src');
+    expect(content).toContain('Processed directories: lib');
+    expect(content).toContain('Options: --case kebab');
+    expect(content).toContain('  ! Skipped src/fooBar');
+  });
+
+  test('appends Markdown reports', () => {
+    const filePath = path.join(root, 'baptist.md');
+
+    writeLog(createEntry('src'), { format: 'markdown', filePath, append: true });
+    writeLog(createEntry('lib'), { format: 'markdown', filePath, append: true });
+
+    const content = fs.readFileSync(filePath, 'utf8');
+    expect(content.match(/^## Baptist rename report/gm)).toHaveLength(2);
+    expect(content).toContain('| File | `src/UserCard.tsx` | `src/user-card.tsx` |');
+    expect(content).toContain('- **Git HEAD:** `abc123`');
+    expect(content).toContain('| scanning | 12 ms |');
+  });
+});
@@ -1,10 +1,46 @@
 import fs from 'node:fs';
+import path from 'node:path';
 
 import type { FileSystemItem } from '../types/index.js';
 
+/**
+ * Formats of the run log: a plain-text report, JSON for tooling, or Markdown to paste into
+ * pull request descriptions
+ */
+export type LogFormat = 'text' | 'json' | 'markdown';
+
+export const LOG_FORMATS: LogFormat[] = ['text', 'json', 'markdown'];
+
+/**
+ * Directory the log is written to by default, outside of the scanned tree
+ */
+export const LOG_DIRECTORY = '.baptist';
+
+const LOG_FILE_EXTENSIONS: Record<LogFormat, string> = {
+  text: '.log',
+  json: '.json',
+  markdown: '.md',
+};
+
+export interface LogOptions {
+  format: LogFormat;
+  /** Path of the log file, defaults to `.baptist/baptist.<extension>` */
+  filePath?: string;
+  /** Add the entry to the existing log instead of replacing it, keeping one entry per run */
+  append: boolean;
+}
+
 export interface LogEntry {
   timestamp: string;
   directories: string[];
+  /** Options the run was started with */
+  flags: Record<string, unknown>;
+  /** Commit checked out before the run, if the directories are inside a git repository */
+  gitHeadBefore?: string;
+  gitHeadAfter?: string;
+  /** Milliseconds spent in each step, in the order they ran */
+  durations: Record<string, number>;
+  warnings: string[];
   renamedItems: FileSystemItem[];
   updatedFiles: string[];
   totalRenamed: number;
@@ -12,16 +48,98 @@ export interface LogEntry {
 }
 
 /**
- * Write a log entry to the baptist.log file
+ * Get the path a log is written to
+ */
+export function getLogFilePath(options: LogOptions): string {
+  return options.filePath ?? path.join(LOG_DIRECTORY, `baptist${LOG_FILE_EXTENSIONS[options.format]}`);
+}
+
+/**
+ * Measure how long each step of a run takes. Each call to `endStep` records the time
+ * since the previous one.
+ */
+export function createStepTimer() {
+  const durations: Record<string, number> = {};
+  let stepStart = performance.now();
+
+  return {
+    durations,
+    endStep: (step: string) => {
+      const now = performance.now();
+      durations[step] = Math.round((durations[step] ?? 0) + now - stepStart);
+      stepStart = now;
+    },
+  };
+}
+
+/**
+ * Write a log entry to the log file. In append mode, JSON logs hold an array with one
+ * entry per run, text and Markdown logs get the new entry added at the end.
  */
-export function writeLog(logEntry: LogEntry): void {
-  const logContent = generateLogContent(logEntry);
+export function writeLog(logEntry: LogEntry, options: LogOptions): string {
+  const logFilePath = getLogFilePath(options);
 
   try {
-    fs.writeFileSync('baptist.log', logContent, 'utf8');
+    fs.mkdirSync(path.dirname(path.resolve(logFilePath)), { recursive: true });
+
+    if (options.format === 'json') {
+      const entries = options.append ? readJsonLog(logFilePath) : [];
+      fs.writeFileSync(logFilePath, JSON.stringify([...entries, logEntry], undefined, 2) + '\n', 'utf8');
+    } else {
+      const logContent =
+        options.format === 'markdown' ? generateMarkdownContent(logEntry) : generateLogContent(logEntry);
+
+      if (options.append && fs.existsSync(logFilePath) && fs.statSync(logFilePath).size > 0) {
+        fs.appendFileSync(logFilePath, '\n' + logContent, 'utf8');
+      } else {
+        fs.writeFileSync(logFilePath, logContent, 'utf8');
+      }
+    }
   } catch (error) {
     console.error('Failed to write log file:', error);
   }
+
+  return logFilePath;
+}
+
+/**
+ * Read the entries of an existing JSON log, a log holding a single entry is read as well
+ */
+function readJsonLog(logFilePath: string): LogEntry[] {
+  if (!fs.existsSync(logFilePath)) {
+    return [];
+  }
+
+  const content = JSON.parse(fs.readFileSync(logFilePath, 'utf8')) as LogEntry | LogEntry[];
+  return Array.isArray(content) ? content : [content];
+}
+
+/**
+ * Describe a git HEAD change for the reports
+ */
+function describeGitHeads({ gitHeadBefore, gitHeadAfter }: LogEntry): string | undefined {
+  if (!gitHeadBefore) {
+    return undefined;
+  }
+
+  return gitHeadAfter && gitHeadAfter !== gitHeadBefore ? `${gitHeadBefore} -> ${gitHeadAfter}` : gitHeadBefore;
+}
+
+/**
+ * Describe the options of a run as command line flags
+ */
+function describeFlags(flags: Record<string, unknown>): string {
+  return Object.entries(flags)
+    .filter(([, value]) => value !== undefined && value !== false)
+    .map(([name, value]) => {
+      const flag = `--${name.replaceAll(/([A-Z])/g, '-$1').toLowerCase()}`;
+      if (value === true) {
+        return flag;
+      }
+
+      return typeof value === 'object' ? `${flag} ${JSON.stringify(value)}` : `${flag} ${value}`;
+    })
+    .join(' ');
 }
 
 /**
@@ -29,6 +147,7 @@ export function writeLog(logEntry: LogEntry): void {
  */
 function generateLogContent(logEntry: LogEntry): string {
   const { timestamp, directories, renamedItems, updatedFiles, totalRenamed, totalUpdated } = logEntry;
+  const gitHeads = describeGitHeads(logEntry);
 
   const lines: string[] = [
     '='.repeat(60),
@@ -37,6 +156,8 @@ function generateLogContent(logEntry: LogEntry): string {
     '',
     `Timestamp: ${timestamp}`,
     `Processed directories: ${directories.join(', ')}`,
+    `Options: ${describeFlags(logEntry.flags) || '(none)'}`,
+    ...(gitHeads ? [`Git HEAD: ${gitHeads}`] : []),
     '',
     `Summary:`,
     `  - Files/folders renamed: ${totalRenamed}`,
@@ -67,7 +188,72 @@ function generateLogContent(logEntry: LogEntry): string {
     lines.push('No import statements were updated.', '');
   }
 
-  lines.push(`Report generated by Baptist at ${new Date().toISOString()}`, '');
+  if (logEntry.warnings.length > 0) {
+    lines.push('Warnings:', '-'.repeat(40));
+    for (const warning of logEntry.warnings) {
+      lines.push(`  ! ${warning}`);
+    }
+    lines.push('');
+  }
+
+  lines.push('Step Durations:', '-'.repeat(40));
+  for (const [step, duration] of Object.entries(logEntry.durations)) {
+    lines.push(`  ${step}: ${duration}ms`);
+  }
+
+  lines.push('', `Report generated by Baptist at ${new Date().toISOString()}`, '');
+
+  return lines.join('\n');
+}
+
+/**
+ * Generate a Markdown report, to be pasted into a pull request description
+ */
+function generateMarkdownContent(logEntry: LogEntry): string {
+  const { timestamp, directories, renamedItems, updatedFiles, totalRenamed, totalUpdated } = logEntry;
+  const gitHeads = describeGitHeads(logEntry);
+  const flags = describeFlags(logEntry.flags);
+
+  const lines: string[] = [
+    `## Baptist rename report (${timestamp})`,
+    '',
+    `- **Directories:** ${directories.map((directory) => `\`${directory}\``).join(', ')}`,
+    ...(flags ? [`- **Options:** \`${flags}\``] : []),
+    ...(gitHeads ? [`- **Git HEAD:** \`${gitHeads}\``] : []),
+    `- **Renamed:** ${totalRenamed} files and folders`,
+    `- **Updated imports in:** ${totalUpdated} files`,
+    '',
+  ];
+
+  if (renamedItems.length > 0) {
+    lines.push('### Renames', '', '| Type | From | To |', '| --- | --- | --- |');
+    for (const item of renamedItems) {
+      lines.push(`| ${item.isDirectory ? 'Folder' : 'File'} | \`${item.originalPath}\` | \`${item.newPath}\` |`);
+    }
+    lines.push('');
+  }
+
+  if (updatedFiles.length > 0) {
+    lines.push('<details>', `<summary>Files with updated imports (${updatedFiles.length})</summary>`, '');
+    for (const file of updatedFiles) {
+      lines.push(`- \`${file}\``);
+    }
+    lines.push('', '</details>', '');
+  }
+
+  if (logEntry.warnings.length > 0) {
+    lines.push('### Warnings', '');
+    for (const warning of logEntry.warnings) {
+      lines.push(`- ${warning}`);
+    }
+    lines.push('');
+  }
+
+  lines.push('### Step durations', '', '| Step | Duration |', '| --- | --- |');
+  for (const [step, duration] of Object.entries(logEntry.durations)) {
+    lines.push(`| ${step} | ${duration} ms |`);
+  }
+  lines.push('');
 
   return lines.join('\n');
 }
@@ -78,13 +264,15 @@ function generateLogContent(logEntry: LogEntry): string {
 export function createLogEntry(
   directories: string[],
   renamedItems: FileSystemItem[],
-  updatedFiles: string[]
+  updatedFiles: string[],
+  details: Pick<LogEntry, 'flags' | 'gitHeadBefore' | 'gitHeadAfter' | 'durations' | 'warnings'>
 ): LogEntry {
   const itemsToRename = renamedItems.filter((item) => item.needsRename);
 
   return {
     timestamp: new Date().toISOString(),
     directories,
+    ...details,
     renamedItems: itemsToRename,
     updatedFiles,
     totalRenamed: itemsToRename.length,
@@ -0,0 +1,185 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+/**
+ * Extensions tried, in order, for specifiers that omit the file extension
+ */
+const RESOLVABLE_EXTENSIONS = [
+  '.ts',
+  '.tsx',
+  '.d.ts',
+  '.js',
+  '.jsx',
+  '.mts',
+  '.mjs',
+  '.cts',
+  '.cjs',
+  '.json',
+  '.vue',
+  '.svelte',
+];
+
+/**
+ * Extensions tried, in order, for stylesheet imports that omit the file extension
+ */
+const STYLESHEET_EXTENSIONS = ['.scss', '.sass', '.less', '.css'];
+
+/**
+ * TypeScript lets specifiers use the extension of the emitted file, so `./foo.js` may
+ * point at `foo.ts`
+ */
+const EXTENSION_ALIASES: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+export interface ResolvedModule {
+  /** Absolute path of the file the specifier resolves to */
+  resolvedPath: string;
+  /** Absolute path the specifier literally points at */
+  targetPath: string;
+  /** How the target path was resolved to the file, `partial` being a Sass partial (`_name.scss`) */
+  kind: 'file' | 'extension-alias' | 'extensionless' | 'directory' | 'partial';
+}
+
+function isFile(filePath: string): boolean {
+  return fs.statSync(filePath, { throwIfNoEntry: false })?.isFile() ?? false;
+}
+
+function isDirectory(directoryPath: string): boolean {
+  return fs.statSync(directoryPath, { throwIfNoEntry: false })?.isDirectory() ?? false;
+}
+
+/**
+ * Resolve an absolute target path the way Node and TypeScript would: the exact file,
+ * a TypeScript source behind a `.js`-style extension, the file with one of the known
+ * extensions appended, or the `index` file of a directory.
+ */
+export function resolveModulePath(targetPath: string): ResolvedModule | undefined {
+  if (isFile(targetPath)) {
+    return { resolvedPath: targetPath, targetPath, kind: 'file' };
+  }
+
+  const extension = path.extname(targetPath);
+  for (const alias of EXTENSION_ALIASES[extension] ?? []) {
+    const candidate = targetPath.slice(0, -extension.length) + alias;
+    if (isFile(candidate)) {
+      return { resolvedPath: candidate, targetPath, kind: 'extension-alias' };
+    }
+  }
+
+  for (const candidateExtension of RESOLVABLE_EXTENSIONS) {
+    const candidate = targetPath + candidateExtension;
+    if (isFile(candidate)) {
+      return { resolvedPath: candidate, targetPath, kind: 'extensionless' };
+    }
+  }
+
+  if (isDirectory(targetPath)) {
+    for (const candidateExtension of RESOLVABLE_EXTENSIONS) {
+      const candidate = path.join(targetPath, `index${candidateExtension}`);
+      if (isFile(candidate)) {
+        return { resolvedPath: candidate, targetPath, kind: 'directory' };
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve an absolute target path the way Sass and Less resolve `@import`/`@use`: the
+ * exact file, the Sass partial of the same name, either with one of the stylesheet
+ * extensions appended, or the `index` file of a directory.
+ */
+export function resolveStylesheetPath(targetPath: string): ResolvedModule | undefined {
+  const partialPath = path.join(path.dirname(targetPath), `_${path.basename(targetPath)}`);
+
+  if (isFile(targetPath)) {
+    return { resolvedPath: targetPath, targetPath, kind: 'file' };
+  }
+
+  if (isFile(partialPath)) {
+    return { resolvedPath: partialPath, targetPath, kind: 'partial' };
+  }
+
+  for (const candidateExtension of STYLESHEET_EXTENSIONS) {
+    if (isFile(targetPath + candidateExtension)) {
+      return { resolvedPath: targetPath + candidateExtension, targetPath, kind: 'extensionless' };
+    }
+
+    if (isFile(partialPath + candidateExtension)) {
+      return { resolvedPath: partialPath + candidateExtension, targetPath, kind: 'partial' };
+    }
+  }
+
+  if (isDirectory(targetPath)) {
+    for (const candidateExtension of STYLESHEET_EXTENSIONS) {
+      for (const indexName of ['index', '_index']) {
+        const candidate = path.join(targetPath, `${indexName}${candidateExtension}`);
+        if (isFile(candidate)) {
+          return { resolvedPath: candidate, targetPath, kind: 'directory' };
+        }
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve an absolute target path of a document reference (a `url()`, an HTML attribute
+ * or a Markdown link), which points at an existing file or directory as it is
+ */
+export function resolveReferencePath(targetPath: string): ResolvedModule | undefined {
+  if (isFile(targetPath) || isDirectory(targetPath)) {
+    return { resolvedPath: targetPath, targetPath, kind: 'file' };
+  }
+
+  return undefined;
+}
+
+/**
+ * Compute the path a resolved specifier should point at once its file has moved to
+ * `renamedPath`, keeping the form of the original specifier (extension omitted, `.js`
+ * instead of `.ts`, directory instead of its index file).
+ */
+export function getRenamedTargetPath(resolved: ResolvedModule, renamedPath: string): string {
+  switch (resolved.kind) {
+    case 'file': {
+      return renamedPath;
+    }
+    case 'extension-alias': {
+      const renamedStem = renamedPath.slice(0, -path.extname(resolved.resolvedPath).length);
+      return renamedStem + path.extname(resolved.targetPath);
+    }
+    case 'extensionless': {
+      return renamedPath.slice(0, -(resolved.resolvedPath.length - resolved.targetPath.length));
+    }
+    case 'directory': {
+      return path.dirname(renamedPath);
+    }
+    case 'partial': {
+      // Sass partials are imported without their underscore, and possibly their extension
+      const omittedLength = path.basename(resolved.resolvedPath).length - path.basename(resolved.targetPath).length - 1;
+      const renamedName = path.basename(renamedPath).replace(/^_/, '');
+      return path.join(path.dirname(renamedPath), renamedName.slice(0, renamedName.length - omittedLength));
+    }
+  }
+}
+
+/**
+ * Build a relative specifier from a directory to a target path, using forward slashes
+ * and a leading `./` where needed
+ */
+export function toRelativeSpecifier(fromDirectory: string, targetPath: string): string {
+  const relativePath = path.relative(fromDirectory, targetPath).split(path.sep).join('/');
+
+  if (relativePath === '') {
+    return '.';
+  }
+
+  return relativePath === '..' || relativePath.startsWith('../') ? relativePath : `./${relativePath}`;
+}
@@ -0,0 +1,158 @@
+import { describe, expect, test } from 'vitest';
+
+import { findModuleSpecifiers, replaceModuleSpecifiers } from './module-specifiers.js';
+
+function findValues(content: string, filePath: string = 'file.ts'): string[] {
+  return findModuleSpecifiers(content, filePath).map((specifier) => specifier.value);
+}
+
+describe('findModuleSpecifiers', () => {
+  test('finds import and export declarations', () => {
+    const content = [
+      "import Foo from './Foo';",
+      "import './SideEffect';",
+      "import type { Bar } from './Bar';",
+      "export * from './Barrel';",
+      "export { baz } from './Baz';",
+      "export * as qux from './Qux';",
+    ].join('\n');
+
+    expect(findValues(content)).toEqual(['./Foo', './SideEffect', './Bar', './Barrel', './Baz', './Qux']);
+  });
+
+  test('finds imports split across lines', () => {
+    const content = ['import {', '  first,', '  second,', "} from './MultiLine';"].join('\n');
+
+    expect(findValues(content)).toEqual(['./MultiLine']);
+  });
+
+  test('finds require, dynamic import, import types and mocks', () => {
+    const content = [
+      "const a = require('./Required');",
+      "const b = await import('./Dynamic');",
+      "import c = require('./ImportEquals');",
+      "type D = import('./ImportType').D;",
+      "vi.mock('./Mocked');",
+      'const e = require(`./Template`);',
+    ].join('\n');
+
+    expect(findValues(content)).toEqual([
+      './Required',
+      './Dynamic',
+      './ImportEquals',
+      './ImportType',
+      './Mocked',
+      './Template',
+    ]);
+  });
+
+  test('ignores text inside comments and strings', () => {
+    const content = [
+      "// import Foo from './Commented';",
+      "/* export * from './Block'; */",
+      'const text = "import x from \'./InString\'";',
+      "import Real from './Real';",
+    ].join('\n');
+
+    expect(findValues(content)).toEqual(['./Real']);
+  });
+
+  test('parses JSX in JavaScript files', () => {
+    const content = ["import Button from './Button';", 'export const App = () => <Button />;'].join('\n');
+
+    expect(findValues(content, 'app.js')).toEqual(['./Button']);
+  });
+
+  test('finds specifiers inside script blocks of single-file components', () => {
+    const content = [
+      '<template><UserCard /></template>',
+      '<script setup lang="ts">',
+      "import UserCard from './UserCard.vue';",
+      '</script>',
+    ].join('\n');
+
+    const specifiers = findModuleSpecifiers(content, 'App.vue');
+
+    expect(specifiers.map((specifier) => specifier.value)).toEqual(['./UserCard.vue']);
+    expect(content.slice(specifiers[0].start, specifiers[0].end)).toBe('./UserCard.vue');
+  });
+
+  test('finds stylesheet imports and url() references outside of comments', () => {
+    const content = [
+      "@use 'Theme/Colors' as colors;",
+      '@import "./Reset.css", "Fonts";',
+      "/* @import './Commented'; */",
+      ".logo { background: url(../Images/Logo.svg) no-repeat; mask: url('./Mask.png'); }",
+    ].join('\n');
+
+    const specifiers = findModuleSpecifiers(content, 'App.module.scss');
+
+    expect(specifiers.map((specifier) => [specifier.value, specifier.kind])).toEqual([
+      ['Theme/Colors', 'stylesheet'],
+      ['./Reset.css', 'stylesheet'],
+      ['Fonts', 'stylesheet'],
+      ['../Images/Logo.svg', 'url'],
+      ['./Mask.png', 'url'],
+    ]);
+    expect(specifiers.map((specifier) => content.slice(specifier.start, specifier.end))).toEqual(
+      specifiers.map((specifier) => specifier.value)
+    );
+  });
+
+  test('finds src and href attributes in HTML', () => {
+    const content = [
+      '<link rel="stylesheet" href="./Styles/Main.css">',
+      '<script type="module" src=\'Main.ts\'></script>',
+      '<!-- <img src="Old.png"> -->',
+      '<img data-src="Lazy.png" alt="" src="Images/Hero.png" />',
+    ].join('\n');
+
+    expect(findValues(content, 'index.html')).toEqual(['./Styles/Main.css', 'Main.ts', 'Images/Hero.png']);
+  });
+
+  test('finds Markdown links, images and reference definitions outside of code', () => {
+    const content = [
+      '# Docs',
+      'See [the guide](./Guides/GettingStarted.md#install "Guide") and ![logo](<Assets/Logo Dark.png>).',
+      '',
+      '[api]: ApiReference.md',
+      '',
+      'Use `[not](./Code.md)` here.',
+      '',
+      '```md',
+      '[also not](./Fenced.md)',
+      '```',
+      '<img src="Assets/Banner.png">',
+    ].join('\n');
+
+    const specifiers = findModuleSpecifiers(content, 'README.md');
+
+    expect(specifiers.map((specifier) => specifier.value)).toEqual([
+      './Guides/GettingStarted.md#install',
+      'Assets/Logo Dark.png',
+      'ApiReference.md',
+      'Assets/Banner.png',
+    ]);
+    expect(specifiers.map((specifier) => content.slice(specifier.start, specifier.end))).toEqual(
+      specifiers.map((specifier) => specifier.value)
+    );
+  });
+});
+
+describe('replaceModuleSpecifiers', () => {
+  test('replaces specifiers in place and keeps everything else byte-for-byte', () => {
+    const content = 'import Foo from \'./Foo\'; // keep\r\nexport * from "./Bar";\n';
+    const specifiers = findModuleSpecifiers(content, 'index.ts');
+
+    const result = replaceModuleSpecifiers(content, specifiers, (specifier) => specifier.toLowerCase());
+
+    expect(result).toBe('import Foo from \'./foo\'; // keep\r\nexport * from "./bar";\n');
+  });
+
+  test('returns the content unchanged when nothing is replaced', () => {
+    const content = "import Foo from './Foo';";
+    const specifiers = findModuleSpecifiers(content, 'index.ts');
+
+    expect(replaceModuleSpecifiers(content, specifiers, (specifier) => specifier)).toBe(content);
+  });
+});
@@ -0,0 +1,312 @@
+import path from 'node:path';
+import ts from 'typescript';
+
+/**
+ * How a specifier is resolved: `stylesheet` for `@import`/`@use`/`@forward` (Sass partials
+ * and omitted extensions), `url` for `url()`, HTML attributes and Markdown links, which
+ * point at a file or directory relative to the document
+ */
+export type SpecifierKind = 'module' | 'stylesheet' | 'url';
+
+/**
+ * A module specifier found in a source file. `start` and `end` are the offsets of the
+ * specifier text itself, excluding the surrounding quotes.
+ */
+export interface ModuleSpecifier {
+  value: string;
+  start: number;
+  end: number;
+  kind: SpecifierKind;
+}
+
+/**
+ * Call expressions whose first argument is a module specifier, in addition to
+ * `import()` and `require()`
+ */
+const MODULE_CALLEES = new Set([
+  'require.resolve',
+  'jest.mock',
+  'jest.unmock',
+  'jest.doMock',
+  'jest.requireActual',
+  'jest.requireMock',
+  'vi.mock',
+  'vi.unmock',
+  'vi.doMock',
+  'vi.importActual',
+  'vi.importMock',
+]);
+
+/**
+ * Matches `<script>` blocks in single-file components (Vue, Svelte)
+ */
+const SCRIPT_BLOCK_PATTERN = /<script\b([^>]*)>([\s\S]*?)<\/script>/g;
+
+const STYLESHEET_EXTENSIONS = new Set(['.css', '.scss', '.sass', '.less']);
+const HTML_EXTENSIONS = new Set(['.html', '.htm']);
+const MARKDOWN_EXTENSIONS = new Set(['.md', '.markdown']);
+
+/**
+ * Matches `@import`, `@use` and `@forward` rules along with their quoted specifiers
+ */
+const STYLESHEET_IMPORT_PATTERN = /@(?:import|use|forward)\s+((?:(["'])[^"'\n]*\2\s*,?\s*)+)/g;
+
+/**
+ * Matches `url()` references, quoted or not
+ */
+const URL_FUNCTION_PATTERN = /\burl\(\s*(["']?)([^"')\s]+)\1\s*\)/g;
+
+/**
+ * Matches quoted `src` and `href` attributes of HTML elements
+ */
+const HTML_ATTRIBUTE_PATTERN = /<[a-z][\w-]*(?:\s[^>]*?)?\s(?:src|href)\s*=\s*(["'])([^"']*)\1/gi;
+
+/**
+ * Matches the destination of inline Markdown links and images, `[text](path "title")`
+ */
+const MARKDOWN_LINK_PATTERN = /\]\(\s*(<[^>\n]*>|[^\s)]+)/g;
+
+/**
+ * Matches Markdown link reference definitions, `[label]: path "title"`
+ */
+const MARKDOWN_DEFINITION_PATTERN = /^ {0,3}\[[^\]\n]+\]:[ \t]*(<[^>\n]*>|\S+)/gm;
+
+/**
+ * Pick the script kind the TypeScript parser should use for a file extension
+ */
+function getScriptKind(extension: string): ts.ScriptKind {
+  switch (extension) {
+    case '.ts':
+    case '.mts':
+    case '.cts': {
+      return ts.ScriptKind.TS;
+    }
+    case '.tsx': {
+      return ts.ScriptKind.TSX;
+    }
+    default: {
+      // Plain JavaScript files frequently contain JSX, so always allow it
+      return ts.ScriptKind.JSX;
+    }
+  }
+}
+
+/**
+ * Get the specifier literal if the node is a string literal (or a template literal
+ * without substitutions)
+ */
+function getSpecifierLiteral(node: ts.Node | undefined): ts.StringLiteralLike | undefined {
+  if (node && (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node))) {
+    return node;
+  }
+
+  return undefined;
+}
+
+/**
+ * Get the module specifier literal referenced by a node, if any
+ */
+function getModuleSpecifierLiteral(node: ts.Node): ts.StringLiteralLike | undefined {
+  // import x from '...', import '...', import type { X } from '...'
+  // export * from '...', export { x } from '...'
+  if (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) {
+    return getSpecifierLiteral(node.moduleSpecifier);
+  }
+
+  // import x = require('...')
+  if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference)) {
+    return getSpecifierLiteral(node.moduleReference.expression);
+  }
+
+  // type X = import('...').Y
+  if (ts.isImportTypeNode(node) && ts.isLiteralTypeNode(node.argument)) {
+    return getSpecifierLiteral(node.argument.literal);
+  }
+
+  // import('...'), require('...'), jest.mock('...'), ...
+  if (ts.isCallExpression(node) && node.arguments.length > 0) {
+    const callee = node.expression;
+    const isModuleCall =
+      callee.kind === ts.SyntaxKind.ImportKeyword ||
+      (ts.isIdentifier(callee) && callee.text === 'require') ||
+      (ts.isPropertyAccessExpression(callee) &&
+        ts.isIdentifier(callee.expression) &&
+        MODULE_CALLEES.has(`${callee.expression.text}.${callee.name.text}`));
+
+    if (isModuleCall) {
+      return getSpecifierLiteral(node.arguments[0]);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse a JavaScript/TypeScript source and collect all of its module specifiers
+ */
+function findSpecifiersInScript(
+  content: string,
+  fileName: string,
+  scriptKind: ts.ScriptKind,
+  offset: number = 0
+): ModuleSpecifier[] {
+  const specifiers: ModuleSpecifier[] = [];
+  const sourceFile = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true, scriptKind);
+
+  const visit = (node: ts.Node) => {
+    const literal = getModuleSpecifierLiteral(node);
+    if (literal) {
+      specifiers.push({
+        value: literal.text,
+        start: offset + literal.getStart(sourceFile) + 1,
+        end: offset + literal.end - 1,
+        kind: 'module',
+      });
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+
+  return specifiers;
+}
+
+/**
+ * Replace the parts of the content matched by a pattern with spaces, so references in
+ * comments and code blocks are skipped while every offset stays the same
+ */
+function maskPattern(content: string, pattern: RegExp): string {
+  return content.replaceAll(pattern, (match) => match.replaceAll(/[^\n]/g, ' '));
+}
+
+/**
+ * Collect the references matched by a pattern, where `group` is the capture group
+ * holding the reference. Angle brackets around Markdown destinations are left out.
+ */
+function findPatternReferences(
+  content: string,
+  pattern: RegExp,
+  group: number,
+  kind: SpecifierKind
+): ModuleSpecifier[] {
+  const specifiers: ModuleSpecifier[] = [];
+
+  for (const match of content.matchAll(pattern)) {
+    const reference = match[group];
+    const isBracketed = reference.startsWith('<') && reference.endsWith('>');
+    const value = isBracketed ? reference.slice(1, -1) : reference;
+    const start = match.index + match[0].lastIndexOf(reference) + (isBracketed ? 1 : 0);
+
+    if (value !== '') {
+      specifiers.push({ value, start, end: start + value.length, kind });
+    }
+  }
+
+  return specifiers;
+}
+
+/**
+ * Find the `@import`/`@use`/`@forward` specifiers and `url()` references of a stylesheet
+ */
+function findSpecifiersInStylesheet(content: string): ModuleSpecifier[] {
+  const maskedContent = maskPattern(content, /\/\*[\s\S]*?\*\//g);
+  const specifiers: ModuleSpecifier[] = [];
+
+  for (const match of maskedContent.matchAll(STYLESHEET_IMPORT_PATTERN)) {
+    const listStart = match.index + match[0].indexOf(match[1]);
+
+    // A single rule may import several stylesheets, `@import 'a', 'b';`
+    for (const quoted of match[1].matchAll(/(["'])([^"'\n]*)\1/g)) {
+      const start = listStart + quoted.index + 1;
+      specifiers.push({ value: quoted[2], start, end: start + quoted[2].length, kind: 'stylesheet' });
+    }
+  }
+
+  return [...specifiers, ...findPatternReferences(maskedContent, URL_FUNCTION_PATTERN, 2, 'url')];
+}
+
+/**
+ * Find the `src` and `href` references of an HTML document
+ */
+function findSpecifiersInHtml(content: string): ModuleSpecifier[] {
+  return findPatternReferences(maskPattern(content, /<!--[\s\S]*?-->/g), HTML_ATTRIBUTE_PATTERN, 2, 'url');
+}
+
+/**
+ * Find the link and image destinations of a Markdown document, including those of inline
+ * HTML. Code blocks and code spans are skipped.
+ */
+function findSpecifiersInMarkdown(content: string): ModuleSpecifier[] {
+  const maskedContent = maskPattern(
+    maskPattern(content, /^ {0,3}(`{3,}|~{3,})[\s\S]*?(?:^ {0,3}\1|(?![\s\S]))/gm),
+    /(`+)[^`\n][\s\S]*?\1/g
+  );
+
+  return [
+    ...findPatternReferences(maskedContent, MARKDOWN_LINK_PATTERN, 1, 'url'),
+    ...findPatternReferences(maskedContent, MARKDOWN_DEFINITION_PATTERN, 1, 'url'),
+    ...findSpecifiersInHtml(maskedContent),
+  ];
+}
+
+/**
+ * Find every module specifier in a file. JS/TS/JSX/TSX files are parsed as a whole,
+ * Vue and Svelte files have each of their `<script>` blocks parsed. Stylesheets, HTML
+ * and Markdown documents have their path references collected.
+ */
+export function findModuleSpecifiers(content: string, filePath: string): ModuleSpecifier[] {
+  const extension = path.extname(filePath).toLowerCase();
+
+  if (STYLESHEET_EXTENSIONS.has(extension)) {
+    return findSpecifiersInStylesheet(content);
+  }
+
+  if (HTML_EXTENSIONS.has(extension)) {
+    return findSpecifiersInHtml(content);
+  }
+
+  if (MARKDOWN_EXTENSIONS.has(extension)) {
+    return findSpecifiersInMarkdown(content);
+  }
+
+  if (extension !== '.vue' && extension !== '.svelte') {
+    return findSpecifiersInScript(content, filePath, getScriptKind(extension));
+  }
+
+  const specifiers: ModuleSpecifier[] = [];
+  for (const match of content.matchAll(SCRIPT_BLOCK_PATTERN)) {
+    const [block, attributes, script] = match;
+    const scriptKind = /\blang=["']tsx?["']/.test(attributes) ? ts.ScriptKind.TS : ts.ScriptKind.JSX;
+    const offset = match.index + block.indexOf('>') + 1;
+
+    specifiers.push(...findSpecifiersInScript(script, filePath, scriptKind, offset));
+  }
+
+  return specifiers;
+}
+
+/**
+ * Replace module specifiers in place, leaving every other byte of the content untouched.
+ * `replace` returns the new specifier, or the same value to keep it.
+ */
+export function replaceModuleSpecifiers(
+  content: string,
+  specifiers: ModuleSpecifier[],
+  replace: (value: string, specifier: ModuleSpecifier) => string
+): string {
+  let result = '';
+  let lastIndex = 0;
+
+  for (const specifier of [...specifiers].sort((a, b) => a.start - b.start)) {
+    const replacement = replace(specifier.value, specifier);
+    if (replacement === specifier.value) {
+      continue;
+    }
+
+    result += content.slice(lastIndex, specifier.start) + replacement;
+    lastIndex = specifier.end;
+  }
+
+  return result + content.slice(lastIndex);
+}
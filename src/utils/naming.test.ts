@@ -0,0 +1,67 @@
+import { describe, expect, test } from 'vitest';
+
+import { getNamingStrategy, registerNamingStrategy, splitIntoWords } from './naming.js';
+
+describe('splitIntoWords', () => {
+  test('splits on camelCase boundaries and separators', () => {
+    expect(splitIntoWords('firstName')).toEqual(['first', 'Name']);
+    expect(splitIntoWords('getHTMLElement')).toEqual(['get', 'HTML', 'Element']);
+    expect(splitIntoWords('user_name-field')).toEqual(['user', 'name', 'field']);
+    expect(splitIntoWords('user123Id')).toEqual(['user123', 'Id']);
+  });
+
+  test('keeps acronyms and brand names together', () => {
+    expect(splitIntoWords('XMLHTTPSConnection')).toEqual(['XML', 'HTTPS', 'Connection']);
+    expect(splitIntoWords('my_iOSButton')).toEqual(['my', 'iOS', 'Button']);
+    expect(getNamingStrategy('snake').convert('GraphQLClient')).toBe('graphql_client');
+  });
+
+  test('handles empty strings', () => {
+    expect(splitIntoWords('')).toEqual([]);
+  });
+});
+
+describe('getNamingStrategy', () => {
+  test('defaults to kebab-case', () => {
+    expect(getNamingStrategy().name).toBe('kebab');
+    expect(getNamingStrategy().convert('UserCard')).toBe('user-card');
+  });
+
+  test('converts to snake_case', () => {
+    const snake = getNamingStrategy('snake');
+    expect(snake.convert('UserCard')).toBe('user_card');
+    expect(snake.convert('user-card')).toBe('user_card');
+    expect(snake.convert('getHTMLElement')).toBe('get_html_element');
+    expect(snake.convert('user_card')).toBe('user_card');
+  });
+
+  test('converts to camelCase', () => {
+    const camel = getNamingStrategy('camel');
+    expect(camel.convert('UserCard')).toBe('userCard');
+    expect(camel.convert('user-card')).toBe('userCard');
+    expect(camel.convert('user_card')).toBe('userCard');
+    expect(camel.convert('userCard')).toBe('userCard');
+  });
+
+  test('converts to PascalCase', () => {
+    const pascal = getNamingStrategy('Pascal');
+    expect(pascal.convert('userCard')).toBe('UserCard');
+    expect(pascal.convert('user-card')).toBe('UserCard');
+    expect(pascal.convert('UserCard')).toBe('UserCard');
+    expect(pascal.convert('index')).toBe('index');
+  });
+
+  test('keeps dot-separated suffixes', () => {
+    expect(getNamingStrategy('snake').convert('UserCard.test')).toBe('user_card.test');
+    expect(getNamingStrategy('pascal').convert('user-card.stories')).toBe('UserCard.stories');
+  });
+
+  test('throws for unknown strategies', () => {
+    expect(() => getNamingStrategy('screaming')).toThrow('Unknown naming strategy: screaming');
+  });
+
+  test('supports custom strategies', () => {
+    registerNamingStrategy({ name: 'upper', convert: (input) => input.toUpperCase() });
+    expect(getNamingStrategy('upper').convert('userCard')).toBe('USERCARD');
+  });
+});
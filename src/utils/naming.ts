@@ -0,0 +1,110 @@
+import { splitCamelCase } from './acronyms.js';
+import { camelCaseToKebabCase } from './helpers.js';
+
+/**
+ * A naming strategy converts a single file or directory name (without its extension)
+ * into the target naming convention.
+ */
+export interface NamingStrategy {
+  name: string;
+  convert: (input: string) => string;
+}
+
+/**
+ * Split a name into its words, using separators (`-`, `_`, whitespace) as well as
+ * camelCase boundaries. Consecutive uppercase letters are kept together as one word
+ * unless they are made of known acronyms.
+ *
+ * @example
+ * splitIntoWords('getHTMLElement') // ['get', 'HTML', 'Element']
+ * splitIntoWords('user_name-field') // ['user', 'name', 'field']
+ * splitIntoWords('GraphQLClient') // ['GraphQL', 'Client']
+ */
+export function splitIntoWords(input: string): string[] {
+  return input
+    .replaceAll(/[\dA-Za-z]+/g, (run) => splitCamelCase(run).join(' '))
+    .split(/[\s_-]+/)
+    .filter((word) => word.length > 0);
+}
+
+/**
+ * Names module resolution looks up by their exact spelling, e.g. `./Button` resolves to
+ * `Button/index.ts`. They are never converted, as `Index.ts` breaks those imports on
+ * case-sensitive file systems.
+ */
+const RESOLVED_NAMES = new Set(['index']);
+
+/**
+ * Apply a word-based conversion to the part of a name before its first dot. Suffixes
+ * such as `.test` or `.module` in `UserCard.test` are kept as they are.
+ */
+function convertSegments(input: string, convertWords: (words: string[]) => string): string {
+  const [first, ...suffixes] = input.split('.');
+  if (RESOLVED_NAMES.has(first)) {
+    return input;
+  }
+
+  const words = splitIntoWords(first);
+  const converted = words.length === 0 ? first : convertWords(words);
+
+  return [converted, ...suffixes].join('.');
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
+
+const BUILT_IN_STRATEGIES: NamingStrategy[] = [
+  {
+    name: 'kebab',
+    convert: camelCaseToKebabCase,
+  },
+  {
+    name: 'snake',
+    convert: (input) => convertSegments(input, (words) => words.map((word) => word.toLowerCase()).join('_')),
+  },
+  {
+    name: 'camel',
+    convert: (input) =>
+      convertSegments(input, (words) =>
+        words.map((word, index) => (index === 0 ? word.toLowerCase() : capitalize(word))).join('')
+      ),
+  },
+  {
+    name: 'pascal',
+    convert: (input) => convertSegments(input, (words) => words.map((word) => capitalize(word)).join('')),
+  },
+];
+
+const strategies = new Map<string, NamingStrategy>(BUILT_IN_STRATEGIES.map((strategy) => [strategy.name, strategy]));
+
+/**
+ * The naming strategy used when none is specified
+ */
+export const DEFAULT_NAMING_STRATEGY = 'kebab';
+
+/**
+ * Register a custom naming strategy so it can be selected by name
+ */
+export function registerNamingStrategy(strategy: NamingStrategy): void {
+  strategies.set(strategy.name.toLowerCase(), strategy);
+}
+
+/**
+ * Get the names of all registered naming strategies
+ */
+export function getNamingStrategyNames(): string[] {
+  return [...strategies.keys()];
+}
+
+/**
+ * Look up a naming strategy by name (case-insensitive)
+ */
+export function getNamingStrategy(name: string = DEFAULT_NAMING_STRATEGY): NamingStrategy {
+  const strategy = strategies.get(name.toLowerCase());
+  if (!strategy) {
+    throw new Error(`Unknown naming strategy: ${name}. Available strategies: ${getNamingStrategyNames().join(', ')}`);
+  }
+
+  return strategy;
+}
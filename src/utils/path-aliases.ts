@@ -0,0 +1,196 @@
+import path from 'node:path';
+import ts from 'typescript';
+
+import { type ResolvedModule, resolveModulePath } from './module-resolver.js';
+
+/**
+ * A path alias, as found in tsconfig `paths` or a bundler alias map
+ */
+export interface PathAlias {
+  /** Specifier pattern, may contain a single `*` wildcard */
+  pattern: string;
+  /** Absolute target paths, each may contain a single `*` wildcard */
+  targets: string[];
+  /**
+   * Whether the alias is the name of a workspace package. Imports through it keep the
+   * package name, they never fall back to a relative path into another package.
+   */
+  isPackage?: boolean;
+}
+
+export interface AliasedModule {
+  alias: PathAlias;
+  resolved: ResolvedModule;
+}
+
+/**
+ * Returns the aliases that apply to a given file
+ */
+export type AliasLookup = (filePath: string) => PathAlias[];
+
+/**
+ * Host that reads config files but never enumerates the files a tsconfig includes, which
+ * would walk the whole project just to read `paths`
+ */
+const CONFIG_PARSE_HOST: ts.ParseConfigHost = {
+  useCaseSensitiveFileNames: ts.sys.useCaseSensitiveFileNames,
+  fileExists: ts.sys.fileExists,
+  readFile: ts.sys.readFile,
+  readDirectory: () => [],
+};
+
+/**
+ * Read the `baseUrl` and `paths` of a tsconfig file, following `extends`
+ */
+export function loadTsconfigAliases(tsconfigPath: string): PathAlias[] {
+  const configFile = ts.readConfigFile(tsconfigPath, ts.sys.readFile);
+  if (configFile.error) {
+    return [];
+  }
+
+  const { options } = ts.parseJsonConfigFileContent(
+    configFile.config,
+    CONFIG_PARSE_HOST,
+    path.dirname(tsconfigPath),
+    undefined,
+    tsconfigPath
+  );
+
+  // `paths` are relative to `baseUrl`, or to the tsconfig that declared them
+  const pathsBasePath = options.pathsBasePath;
+  const basePath = options.baseUrl ?? (typeof pathsBasePath === 'string' ? pathsBasePath : path.dirname(tsconfigPath));
+
+  const aliases: PathAlias[] = Object.entries(options.paths ?? {}).map(([pattern, targets]) => ({
+    pattern,
+    targets: targets.map((target) => path.resolve(basePath, target)),
+  }));
+
+  // With a `baseUrl`, TypeScript also resolves bare specifiers relative to it
+  if (options.baseUrl) {
+    aliases.push({ pattern: '*', targets: [path.join(options.baseUrl, '*')] });
+  }
+
+  return aliases;
+}
+
+/**
+ * Convert a bundler-style alias map such as `{ "@": "./src" }` into path aliases. Each
+ * alias matches both the bare alias and anything below it.
+ */
+export function createAliasesFromMap(aliasMap: Record<string, string>, baseDirectory: string): PathAlias[] {
+  return Object.entries(aliasMap).flatMap(([alias, target]) => {
+    const absoluteTarget = path.resolve(baseDirectory, target);
+    return [
+      { pattern: alias, targets: [absoluteTarget] },
+      { pattern: `${alias}/*`, targets: [path.join(absoluteTarget, '*')] },
+    ];
+  });
+}
+
+/**
+ * Create a lookup returning the aliases of the closest tsconfig.json of a file, followed
+ * by the configured aliases. Parsed tsconfig files are cached.
+ */
+export function createAliasLookup(configuredAliases: PathAlias[] = []): AliasLookup {
+  const tsconfigPaths = new Map<string, string | undefined>();
+  const tsconfigAliases = new Map<string, PathAlias[]>();
+
+  return (filePath) => {
+    const directory = path.dirname(path.resolve(filePath));
+
+    if (!tsconfigPaths.has(directory)) {
+      tsconfigPaths.set(directory, ts.findConfigFile(directory, ts.sys.fileExists));
+    }
+
+    const tsconfigPath = tsconfigPaths.get(directory);
+    if (!tsconfigPath) {
+      return configuredAliases;
+    }
+
+    if (!tsconfigAliases.has(tsconfigPath)) {
+      tsconfigAliases.set(tsconfigPath, loadTsconfigAliases(tsconfigPath));
+    }
+
+    return [...(tsconfigAliases.get(tsconfigPath) ?? []), ...configuredAliases];
+  };
+}
+
+/**
+ * Get the part of `value` captured by the wildcard of `pattern`, or `undefined` if the
+ * value does not match. Patterns without a wildcard must match exactly.
+ */
+function matchPattern(pattern: string, value: string): string | undefined {
+  const wildcardIndex = pattern.indexOf('*');
+  if (wildcardIndex === -1) {
+    return pattern === value ? '' : undefined;
+  }
+
+  const prefix = pattern.slice(0, wildcardIndex);
+  const suffix = pattern.slice(wildcardIndex + 1);
+  if (value.length < prefix.length + suffix.length || !value.startsWith(prefix) || !value.endsWith(suffix)) {
+    return undefined;
+  }
+
+  return value.slice(prefix.length, value.length - suffix.length);
+}
+
+/**
+ * Length of the part of a pattern before its wildcard, TypeScript prefers the alias with
+ * the longest prefix
+ */
+function getPrefixLength(pattern: string): number {
+  const wildcardIndex = pattern.indexOf('*');
+  return wildcardIndex === -1 ? Number.POSITIVE_INFINITY : wildcardIndex;
+}
+
+/**
+ * Resolve an aliased specifier to the file it points at, using `resolve` to find the file
+ * behind each alias target
+ */
+export function resolveAliasedSpecifier(
+  specifier: string,
+  aliases: PathAlias[],
+  resolve: (targetPath: string) => ResolvedModule | undefined = resolveModulePath
+): AliasedModule | undefined {
+  const matchingAliases = aliases
+    .filter((alias) => matchPattern(alias.pattern, specifier) !== undefined)
+    .sort((a, b) => getPrefixLength(b.pattern) - getPrefixLength(a.pattern));
+
+  for (const alias of matchingAliases) {
+    const capture = matchPattern(alias.pattern, specifier) ?? '';
+
+    for (const target of alias.targets) {
+      const resolved = resolve(target.replace('*', capture));
+      if (resolved) {
+        return { alias, resolved };
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Express a target path through an alias, preferring `preferredAlias`. Returns
+ * `undefined` when no alias can reach the path.
+ */
+export function toAliasedSpecifier(
+  targetPath: string,
+  aliases: PathAlias[],
+  preferredAlias?: PathAlias
+): string | undefined {
+  const candidates = preferredAlias ? [preferredAlias, ...aliases] : aliases;
+
+  for (const alias of candidates) {
+    for (const target of alias.targets) {
+      const capture = matchPattern(target, targetPath);
+      if (capture === undefined || (!alias.pattern.includes('*') && capture !== '')) {
+        continue;
+      }
+
+      return alias.pattern.replace('*', capture.split(path.sep).join('/'));
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,95 @@
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+
+import { scanDirectories } from './file-scanner.js';
+import { createPathFilter } from './path-filter.js';
+import {
+  type WriteFile,
+  createTemporaryDirectory,
+  removeTemporaryDirectory,
+} from '../__fixtures__/temporary-directory.js';
+
+let root: string;
+let writeFile: WriteFile;
+
+async function scan(
+  options: { include?: string[]; exclude?: string[]; protect?: string[] } = {}
+): Promise<Record<string, string>> {
+  const pathFilter = createPathFilter({ rootDirectory: root, ...options });
+  const { items } = await scanDirectories([path.join(root, 'src')], { pathFilter });
+
+  return Object.fromEntries(
+    items.map((item) => [path.relative(root, item.originalPath), path.relative(root, item.newPath)])
+  );
+}
+
+beforeEach(() => {
+  ({ root, writeFile } = createTemporaryDirectory());
+});
+
+afterEach(() => {
+  removeTemporaryDirectory(root);
+});
+
+describe('createPathFilter', () => {
+  test('skips default excludes by full name only', async () => {
+    writeFile('src/dist/Bundle.js');
+    writeFile('src/.cache/Entry.js');
+    writeFile('src/DistanceMeter.ts');
+    writeFile('src/rebuildIndex.ts');
+
+    expect(await scan()).toEqual({
+      'src/DistanceMeter.ts': 'src/distance-meter.ts',
+      'src/rebuildIndex.ts': 'src/rebuild-index.ts',
+    });
+  });
+
+  test('skips configured excludes', async () => {
+    writeFile('src/Generated/ApiClient.ts');
+    writeFile('src/UserCard.tsx');
+    writeFile('src/UserCard.stories.tsx');
+
+    expect(await scan({ exclude: ['src/Generated', '*.stories.tsx'] })).toEqual({
+      'src/UserCard.tsx': 'src/user-card.tsx',
+    });
+  });
+
+  test('keeps the names of items outside the include globs', async () => {
+    writeFile('src/Components/UserCard.tsx');
+    writeFile('src/Legacy/OldCard.tsx');
+
+    expect(await scan({ include: ['src/Components/*.tsx'] })).toEqual({
+      'src/Components': 'src/Components',
+      'src/Components/UserCard.tsx': 'src/Components/user-card.tsx',
+      'src/Legacy': 'src/Legacy',
+      'src/Legacy/OldCard.tsx': 'src/Legacy/OldCard.tsx',
+    });
+  });
+
+  test('skips paths listed in .baptistignore', async () => {
+    writeFile('.baptistignore', '# Vendored code\nsrc/Vendor/\n*.d.ts\n!src/KeepMe.d.ts\n');
+    writeFile('src/Vendor/LibCode.js');
+    writeFile('src/GlobalTypes.d.ts');
+    writeFile('src/KeepMe.d.ts');
+
+    expect(await scan()).toEqual({
+      'src/KeepMe.d.ts': 'src/keep-me.d.ts',
+    });
+  });
+
+  test('keeps default and configured protected names', async () => {
+    writeFile('src/README.md');
+    writeFile('src/Dockerfile');
+    writeFile('src/__tests__/UserCard.test.ts');
+    writeFile('src/Pages/+page.svelte');
+
+    expect(await scan({ protect: ['+*'] })).toEqual({
+      'src/README.md': 'src/README.md',
+      'src/Dockerfile': 'src/Dockerfile',
+      'src/__tests__': 'src/__tests__',
+      'src/__tests__/UserCard.test.ts': 'src/__tests__/user-card.test.ts',
+      'src/Pages': 'src/pages',
+      'src/pages/+page.svelte': 'src/pages/+page.svelte',
+    });
+  });
+});
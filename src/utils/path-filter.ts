@@ -0,0 +1,122 @@
+import ignore from 'ignore';
+import fs from 'node:fs';
+import path from 'node:path';
+import picomatch from 'picomatch';
+
+/**
+ * Name of the gitignore-style file listing paths baptist must never touch
+ */
+export const IGNORE_FILE_NAME = '.baptistignore';
+
+/**
+ * Paths that are always skipped, matched against every path segment
+ */
+export const DEFAULT_EXCLUDE = ['.*', 'node_modules', 'dist', 'build', 'coverage'];
+
+/**
+ * Names that tools and conventions depend on, these are scanned but never renamed
+ */
+export const DEFAULT_PROTECTED_NAMES = [
+  'README*',
+  'LICENSE*',
+  'LICENCE*',
+  'CHANGELOG*',
+  'CONTRIBUTING*',
+  'CODE_OF_CONDUCT*',
+  'SECURITY*',
+  'AUTHORS*',
+  'NOTICE*',
+  'Dockerfile*',
+  'Makefile',
+  'Procfile',
+  'Jenkinsfile',
+  'Gemfile*',
+  'Rakefile',
+  'Vagrantfile',
+  'CODEOWNERS',
+  '__tests__',
+  '__mocks__',
+  '__snapshots__',
+  '__fixtures__',
+];
+
+export interface PathFilterOptions {
+  /** Directory globs and the ignore file are relative to, defaults to the working directory */
+  rootDirectory?: string;
+  /** Globs limiting which files and directories get renamed */
+  include?: string[];
+  /** Globs of paths that are never renamed, rewritten or descended into */
+  exclude?: string[];
+  /** Globs of paths that keep their name, in addition to the default protected names */
+  protect?: string[];
+}
+
+export interface PathFilter {
+  /** Whether a path must not be touched at all (and directories not descended into) */
+  isExcluded: (itemPath: string, isDirectory: boolean) => boolean;
+  /** Whether the configured excludes or the ignore file exclude a path, leaving out the default excludes */
+  isExcludedByConfig: (itemPath: string, isDirectory: boolean) => boolean;
+  /** Whether a path may be renamed, protected paths never are */
+  isIncluded: (itemPath: string) => boolean;
+}
+
+/**
+ * Create a matcher for globs relative to the root directory. Globs without a slash are
+ * matched against the name of the path only.
+ */
+function createGlobMatcher(globs: string[]): (relativePath: string) => boolean {
+  const isPathMatch = picomatch(
+    globs.filter((glob) => glob.includes('/')),
+    { dot: true }
+  );
+  const isNameMatch = picomatch(
+    globs.filter((glob) => !glob.includes('/')),
+    { dot: true }
+  );
+
+  return (relativePath) => isPathMatch(relativePath) || isNameMatch(path.posix.basename(relativePath));
+}
+
+/**
+ * Create the filter shared by the scanner and the import updater. It combines the default
+ * excludes and protected names, configured include/exclude/protect globs and the rules
+ * of the `.baptistignore` file.
+ * Globs without a slash match a single path segment, like `dist` or `*.generated.ts`.
+ */
+export function createPathFilter(options: PathFilterOptions = {}): PathFilter {
+  const rootDirectory = path.resolve(options.rootDirectory ?? process.cwd());
+  const isDefaultExcluded = createGlobMatcher(DEFAULT_EXCLUDE);
+  const isConfiguredExcluded = createGlobMatcher(options.exclude ?? []);
+  const isConfiguredIncluded = options.include?.length ? createGlobMatcher(options.include) : () => true;
+  const isProtected = createGlobMatcher([...DEFAULT_PROTECTED_NAMES, ...(options.protect ?? [])]);
+
+  const ignoreFilePath = path.join(rootDirectory, IGNORE_FILE_NAME);
+  const ignoreRules = ignore();
+  if (fs.existsSync(ignoreFilePath)) {
+    ignoreRules.add(fs.readFileSync(ignoreFilePath, 'utf8'));
+  }
+
+  const toRelativePath = (itemPath: string) =>
+    path.relative(rootDirectory, path.resolve(itemPath)).split(path.sep).join('/');
+
+  const isExcludedByConfig = (itemPath: string, isDirectory: boolean) => {
+    const relativePath = toRelativePath(itemPath);
+
+    // Paths outside the root directory are only matched by name
+    if (relativePath === '' || relativePath.startsWith('../')) {
+      return isConfiguredExcluded(path.basename(itemPath));
+    }
+
+    return isConfiguredExcluded(relativePath) || ignoreRules.ignores(isDirectory ? `${relativePath}/` : relativePath);
+  };
+
+  return {
+    isExcluded: (itemPath, isDirectory) =>
+      isDefaultExcluded(path.basename(itemPath)) || isExcludedByConfig(itemPath, isDirectory),
+    isExcludedByConfig,
+    isIncluded: (itemPath) => {
+      const relativePath = toRelativePath(itemPath);
+      return isConfiguredIncluded(relativePath) && !isProtected(relativePath);
+    },
+  };
+}
@@ -0,0 +1,28 @@
+import path from 'node:path';
+import { afterAll, beforeAll, bench, describe } from 'vitest';
+
+import { createLargeRepository } from '../__fixtures__/large-repository.js';
+import { createTemporaryDirectory, removeTemporaryDirectory } from '../__fixtures__/temporary-directory.js';
+import { plan } from '../api.js';
+
+let root: string;
+
+beforeAll(() => {
+  const directory = createTemporaryDirectory();
+  root = directory.root;
+  createLargeRepository(directory.writeFile, { directories: 100, filesPerDirectory: 50, renamedPerDirectory: 1 });
+});
+
+afterAll(() => {
+  removeTemporaryDirectory(root);
+});
+
+describe('plan', () => {
+  bench(
+    'scans 5,000 files and plans their import updates',
+    async () => {
+      await plan({ directories: [path.join(root, 'src')] });
+    },
+    { iterations: 5 }
+  );
+});
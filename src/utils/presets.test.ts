@@ -0,0 +1,39 @@
+import { describe, expect, test } from 'vitest';
+
+import { getNamingStrategy } from './naming.js';
+import { applyPresets, getPreset } from './presets.js';
+
+function convert(input: string, presets: string[], strategy = 'kebab'): string {
+  return applyPresets(
+    getNamingStrategy(strategy),
+    presets.map((preset) => getPreset(preset))
+  ).convert(input);
+}
+
+describe('applyPresets', () => {
+  test('keeps route parameters and converts the inside of route groups', () => {
+    expect(convert('[slugId]', ['next'])).toBe('[slugId]');
+    expect(convert('[[...catchAll]]', ['sveltekit'])).toBe('[[...catchAll]]');
+    expect(convert('(AuthGroup)', ['expo-router'])).toBe('(auth-group)');
+    expect(convert('UserProfile', ['next'])).toBe('user-profile');
+  });
+
+  test('keeps the prefixes of private folders', () => {
+    expect(convert('_SharedComponents', ['next'])).toBe('_shared-components');
+    expect(convert('_app', ['next'], 'snake')).toBe('_app');
+    expect(convert('_SharedComponents', ['sveltekit'])).toBe('_shared-components');
+    expect(convert('_SharedComponents', ['sveltekit'], 'pascal')).toBe('SharedComponents');
+  });
+
+  test('returns the naming strategy unchanged without presets', () => {
+    const namingStrategy = getNamingStrategy('kebab');
+
+    expect(applyPresets(namingStrategy, [])).toBe(namingStrategy);
+  });
+});
+
+describe('getPreset', () => {
+  test('throws for unknown presets', () => {
+    expect(() => getPreset('rails')).toThrow('Unknown preset: rails');
+  });
+});
@@ -0,0 +1,133 @@
+import type { NamingStrategy } from './naming.js';
+
+/**
+ * Naming rules of a framework whose routing or build depends on file names
+ */
+export interface Preset {
+  name: string;
+  /** Globs of names the framework depends on, these are never renamed */
+  protectedNames: string[];
+  /** Prefixes kept in front of a name while the rest of it is converted, like `_` of private folders */
+  keptPrefixes: string[];
+}
+
+/**
+ * Route segments of file-system routers: `[param]`, `[[optional]]` and `[...rest]` are
+ * kept as they are, since their names end up in the code, while `(group)` only
+ * organizes routes and has its inside converted
+ */
+const ROUTE_SEGMENT_PATTERN = /(\[+[^\]]*\]+)|\(([^)]*)\)/g;
+
+const PRESETS: Preset[] = [
+  {
+    name: 'next',
+    protectedNames: [
+      '@*',
+      '_app.*',
+      '_document.*',
+      '_error.*',
+      'next.config.*',
+      'next-env.d.ts',
+      'middleware.*',
+      'instrumentation.*',
+      'page.*',
+      'layout.*',
+      'template.*',
+      'loading.*',
+      'error.*',
+      'global-error.*',
+      'not-found.*',
+      'default.*',
+      'route.*',
+      'opengraph-image.*',
+      'twitter-image.*',
+      'icon.*',
+      'apple-icon.*',
+      'sitemap.*',
+      'robots.*',
+      'manifest.*',
+    ],
+    keptPrefixes: ['_'],
+  },
+  {
+    name: 'expo-router',
+    protectedNames: ['+*', '_layout.*', 'app.json', 'app.config.*', 'metro.config.*'],
+    keptPrefixes: [],
+  },
+  {
+    name: 'sveltekit',
+    protectedNames: ['+*', 'app.html', 'app.d.ts', 'hooks.*', 'svelte.config.*', 'service-worker.*'],
+    keptPrefixes: [],
+  },
+  {
+    name: 'nuxt',
+    protectedNames: ['app.vue', 'error.vue', 'app.config.*', 'nuxt.config.*'],
+    keptPrefixes: [],
+  },
+];
+
+/**
+ * Names of the built-in presets
+ */
+export const PRESET_NAMES = PRESETS.map((preset) => preset.name);
+
+/**
+ * Look up a preset by name (case-insensitive)
+ */
+export function getPreset(name: string): Preset {
+  const preset = PRESETS.find((candidate) => candidate.name === name.toLowerCase());
+  if (!preset) {
+    throw new Error(`Unknown preset: ${name}. Available presets: ${PRESET_NAMES.join(', ')}`);
+  }
+
+  return preset;
+}
+
+/**
+ * Get the protected names of the given presets, to be passed to the path filter
+ */
+export function getProtectedNames(presets: Preset[]): string[] {
+  return presets.flatMap((preset) => preset.protectedNames);
+}
+
+/**
+ * Convert a name while following the route segment rules, keeping `[param]` segments and
+ * converting the inside of `(group)` segments and everything around them
+ */
+function convertRouteName(input: string, convert: (input: string) => string, keptPrefixes: string[]): string {
+  const keptPrefix = keptPrefixes.find((prefix) => input.startsWith(prefix) && input.length > prefix.length);
+  if (keptPrefix) {
+    return keptPrefix + convertRouteName(input.slice(keptPrefix.length), convert, keptPrefixes);
+  }
+
+  let result = '';
+  let lastIndex = 0;
+
+  for (const match of input.matchAll(ROUTE_SEGMENT_PATTERN)) {
+    const [segment, parameter, group] = match;
+    const before = input.slice(lastIndex, match.index);
+
+    result += (before ? convert(before) : '') + (parameter ?? `(${group ? convert(group) : ''})`);
+    lastIndex = match.index + segment.length;
+  }
+
+  const rest = input.slice(lastIndex);
+  return result + (rest ? convert(rest) : '');
+}
+
+/**
+ * Wrap a naming strategy so it follows the route segment rules and kept prefixes of the
+ * given presets. Returns the strategy unchanged if there are no presets.
+ */
+export function applyPresets(namingStrategy: NamingStrategy, presets: Preset[]): NamingStrategy {
+  if (presets.length === 0) {
+    return namingStrategy;
+  }
+
+  const keptPrefixes = [...new Set(presets.flatMap((preset) => preset.keptPrefixes))];
+
+  return {
+    name: namingStrategy.name,
+    convert: (input) => convertRouteName(input, namingStrategy.convert, keptPrefixes),
+  };
+}
@@ -0,0 +1,83 @@
+import path from 'node:path';
+
+import type { FileSystemItem } from '../types/index.js';
+
+/**
+ * Maps the absolute original path of every renamed file and directory to its absolute
+ * path after all renames have been applied
+ */
+export type RenameMap = Map<string, string>;
+
+/**
+ * Build the rename map for a list of scanned items.
+ *
+ * The scanner builds each item's `originalPath` from the already renamed parent (so the
+ * move commands can run parents first), so the true original path is reconstructed here
+ * by mapping the parent back to its original name.
+ */
+export function createRenameMap(items: FileSystemItem[]): RenameMap {
+  const renameMap: RenameMap = new Map();
+  const originalDirectories = new Map<string, string>();
+
+  // Parents must be processed before their children
+  const sortedItems = [...items].sort(
+    (a, b) => a.originalPath.split(path.sep).length - b.originalPath.split(path.sep).length
+  );
+
+  for (const item of sortedItems) {
+    const parentPath = path.resolve(path.dirname(item.originalPath));
+    const originalParentPath = originalDirectories.get(parentPath) ?? parentPath;
+    const originalPath = path.join(originalParentPath, path.basename(item.originalPath));
+    const newPath = path.resolve(item.newPath);
+
+    if (item.isDirectory) {
+      originalDirectories.set(newPath, originalPath);
+    }
+
+    if (originalPath !== newPath) {
+      renameMap.set(originalPath, newPath);
+    }
+  }
+
+  return renameMap;
+}
+
+/**
+ * Get the path a file or directory will have after all renames. Paths inside a renamed
+ * directory follow their closest renamed ancestor, paths that are not affected are
+ * returned unchanged.
+ */
+export function getRenamedPath(renameMap: RenameMap, absolutePath: string): string {
+  const remainder: string[] = [];
+  let currentPath = absolutePath;
+
+  while (true) {
+    const renamedPath = renameMap.get(currentPath);
+    if (renamedPath !== undefined) {
+      return path.join(renamedPath, ...remainder);
+    }
+
+    const parentPath = path.dirname(currentPath);
+    if (parentPath === currentPath) {
+      return absolutePath;
+    }
+
+    remainder.unshift(path.basename(currentPath));
+    currentPath = parentPath;
+  }
+}
+
+/**
+ * Create a function mapping a path after the renames of the given items back to where it
+ * is now
+ */
+export function createCurrentPathLookup(items: FileSystemItem[]): (itemPath: string) => string {
+  const reverseRenameMap: RenameMap = new Map(
+    [...createRenameMap(items.filter((item) => item.needsRename))].map(([originalPath, newPath]) => [
+      newPath,
+      originalPath,
+    ])
+  );
+
+  return (itemPath) => getRenamedPath(reverseRenameMap, path.resolve(itemPath));
+}
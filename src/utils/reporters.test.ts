@@ -0,0 +1,58 @@
+import { describe, expect, test } from 'vitest';
+
+import { createJsonReporter, createPlainReporter, getDefaultReporter } from './reporters.js';
+
+function createOutput() {
+  const lines: string[] = [];
+  const errors: string[] = [];
+
+  return { lines, errors, log: (line: string) => lines.push(line), error: (line: string) => errors.push(line) };
+}
+
+describe('createPlainReporter', () => {
+  test('writes a line per event, warnings and errors to stderr', () => {
+    const output = createOutput();
+    const report = createPlainReporter(output);
+
+    report({ type: 'step', step: 'renaming' });
+    report({ type: 'item-renamed', from: 'src/UserCard.tsx', to: 'src/user-card.tsx', processed: 1, total: 2 });
+    report({ type: 'warning', message: 'package.json: "files" entry "src/*.tsx" is a glob' });
+    report({
+      type: 'error',
+      message: 'Found 1 conflicting renames',
+      details: ['src/a.ts: Two items are renamed to it'],
+    });
+    report({ type: 'completed', dryRun: false, renamedItems: 2, updatedFiles: 1, commits: ['abc', 'def'] });
+
+    expect(output.lines).toEqual([
+      'Renaming files and directories...',
+      '[1/2] src/UserCard.tsx => src/user-card.tsx',
+      '✅ Successfully renamed 2 items and updated 1 files in 2 commits. Run `baptist undo` to revert.',
+    ]);
+    expect(output.errors).toEqual([
+      'Warning: package.json: "files" entry "src/*.tsx" is a glob',
+      'Error: Found 1 conflicting renames\n  - src/a.ts: Two items are renamed to it',
+    ]);
+  });
+});
+
+describe('createJsonReporter', () => {
+  test('writes every event as a line of JSON', () => {
+    const output = createOutput();
+    const report = createJsonReporter(output);
+
+    report({ type: 'file-updated', filePath: 'src/index.ts', processed: 1, total: 1 });
+
+    expect(output.lines.map((line) => JSON.parse(line))).toEqual([
+      { type: 'file-updated', filePath: 'src/index.ts', processed: 1, total: 1 },
+    ]);
+  });
+});
+
+describe('getDefaultReporter', () => {
+  test('uses the ink UI in a terminal only', () => {
+    expect(getDefaultReporter(true)).toBe('ink');
+    expect(getDefaultReporter(false)).toBe('plain');
+    expect(getDefaultReporter()).toBe('plain');
+  });
+});
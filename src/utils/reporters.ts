@@ -0,0 +1,121 @@
+import type { PipelineEvent, PipelineStep } from '../api.js';
+
+/**
+ * How a run reports its progress: the interactive Ink UI, plain lines for logs, or one
+ * JSON event per line for other tools
+ */
+export type ReporterName = 'ink' | 'plain' | 'json';
+
+export const REPORTER_NAMES: ReporterName[] = ['ink', 'plain', 'json'];
+
+/**
+ * Receives the events of a run as they happen
+ */
+export type Reporter = (event: PipelineEvent) => void;
+
+export interface ReporterOutput {
+  /** Writes a line of progress */
+  log: (line: string) => void;
+  /** Writes a line about warnings and errors */
+  error: (line: string) => void;
+}
+
+/**
+ * Message shown while a step runs
+ */
+export const STEP_MESSAGES: Record<PipelineStep, string> = {
+  'checking-git': 'Checking git status...',
+  'scanning': 'Scanning directories for files to rename...',
+  'reviewing': 'Reviewing renames...',
+  'planning': 'Planning renames and import updates...',
+  'renaming': 'Renaming files and directories...',
+  'updating-imports': 'Updating import statements...',
+  'committing': 'Committing renames and updated files...',
+  'writing-log': 'Writing log file...',
+};
+
+const CONSOLE_OUTPUT: ReporterOutput = {
+  log: (line) => console.log(line),
+  error: (line) => console.error(line),
+};
+
+/**
+ * Pick the reporter when none is chosen: the Ink UI in a terminal, plain lines otherwise,
+ * as in CI logs
+ */
+export function getDefaultReporter(isTTY = process.stdout.isTTY): ReporterName {
+  return isTTY ? 'ink' : 'plain';
+}
+
+/**
+ * Summarize a completed run
+ */
+export function formatCompletedMessage(event: Extract<PipelineEvent, { type: 'completed' }>): string {
+  if (event.dryRun) {
+    return `Dry run: ${event.renamedItems} items would be renamed and ${event.updatedFiles} files updated`;
+  }
+
+  if (event.renamedItems === 0) {
+    return 'No files or directories need to be renamed.';
+  }
+
+  return `✅ Successfully renamed ${event.renamedItems} items and updated ${event.updatedFiles} files${
+    event.commits ? ` in ${event.commits.length} commits` : ''
+  }. Run \`baptist undo\` to revert.`;
+}
+
+/**
+ * Format an event as plain text
+ */
+export function formatPlainEvent(event: PipelineEvent): string {
+  switch (event.type) {
+    case 'step': {
+      return STEP_MESSAGES[event.step];
+    }
+    case 'planned': {
+      return `Found ${event.items} items to rename and ${event.files} files to update`;
+    }
+    case 'rename-planned': {
+      return `[DRY RUN] ${event.from} => ${event.to}`;
+    }
+    case 'update-planned': {
+      return `[DRY RUN] update ${event.filePath}`;
+    }
+    case 'item-renamed': {
+      return `[${event.processed}/${event.total}] ${event.from} => ${event.to}`;
+    }
+    case 'file-updated': {
+      return `[${event.processed}/${event.total}] updated ${event.filePath}`;
+    }
+    case 'warning': {
+      return `Warning: ${event.message}`;
+    }
+    case 'error': {
+      return [`Error: ${event.message}`, ...(event.details ?? []).map((detail) => `  - ${detail}`)].join('\n');
+    }
+    case 'completed': {
+      return formatCompletedMessage(event);
+    }
+  }
+}
+
+/**
+ * Create a reporter writing one line per event, warnings and errors going to stderr
+ */
+export function createPlainReporter(output: ReporterOutput = CONSOLE_OUTPUT): Reporter {
+  return (event) => {
+    const line = formatPlainEvent(event);
+    if (event.type === 'warning' || event.type === 'error') {
+      output.error(line);
+    } else {
+      output.log(line);
+    }
+  };
+}
+
+/**
+ * Create a reporter writing every event as a line of JSON (NDJSON)
+ */
+export function createJsonReporter(output: ReporterOutput = CONSOLE_OUTPUT): Reporter {
+  return (event) => output.log(JSON.stringify(event));
+}
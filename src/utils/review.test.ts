@@ -0,0 +1,66 @@
+import path from 'node:path';
+import { describe, expect, test } from 'vitest';
+
+import type { ImportReference } from './import-updater.js';
+import { countAffectedImports, countImportsOf, getReviewRows, toggleReviewItem } from './review.js';
+import type { FileSystemItem } from '../types/index.js';
+
+function item(originalPath: string, newPath: string, isDirectory = false): FileSystemItem {
+  return { originalPath, newPath, isDirectory, needsRename: originalPath !== newPath };
+}
+
+function reference(targetPath: string): ImportReference {
+  return { filePath: 'fixture/index.ts', specifier: targetPath, targetPath: path.resolve(targetPath) };
+}
+
+// Scanned items build their paths on the new path of their parent
+const items = [
+  item('fixture/Components', 'fixture/components', true),
+  item('fixture/components/UserCard.tsx', 'fixture/components/user-card.tsx'),
+  item('fixture/components/index.ts', 'fixture/components/index.ts'),
+  item('fixture/lib', 'fixture/lib', true),
+  item('fixture/lib/utils.ts', 'fixture/lib/utils.ts'),
+  item('fixture/vendor', 'fixture/vendor', true),
+  item('fixture/vendor/jQuery.js', 'fixture/vendor/j-query.js'),
+];
+
+describe('getReviewRows', () => {
+  test('lists renamed items with their parent directories', () => {
+    expect(
+      getReviewRows(items).map((row) => [row.index, row.depth, path.relative('fixture', row.originalPath)])
+    ).toEqual([
+      [0, 0, 'Components'],
+      [1, 1, path.join('Components', 'UserCard.tsx')],
+      [5, 0, 'vendor'],
+      [6, 1, path.join('vendor', 'jQuery.js')],
+    ]);
+  });
+});
+
+describe('toggleReviewItem', () => {
+  test('keeps the current name of a directory and its contents', () => {
+    const toggled = toggleReviewItem(items, 0, 'components');
+
+    expect(toggled[0]).toEqual(item('fixture/Components', 'fixture/Components', true));
+    expect(toggled[1]).toEqual(item('fixture/Components/UserCard.tsx', 'fixture/Components/user-card.tsx'));
+    expect(toggleReviewItem(toggled, 0, 'components')).toEqual(items);
+  });
+});
+
+describe('import counts', () => {
+  const references = [
+    reference('fixture/Components/UserCard.tsx'),
+    reference('fixture/Components/index.ts'),
+    reference('fixture/vendor/jQuery.js'),
+  ];
+
+  test('counts the imports of items and the contents of directories', () => {
+    expect(countImportsOf(references, path.resolve('fixture/Components'))).toBe(2);
+    expect(countImportsOf(references, path.resolve('fixture/vendor/jQuery.js'))).toBe(1);
+  });
+
+  test('counts the imports affected by the selected renames', () => {
+    expect(countAffectedImports(items, references)).toBe(3);
+    expect(countAffectedImports(toggleReviewItem(items, 6, 'j-query.js'), references)).toBe(2);
+  });
+});
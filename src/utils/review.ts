@@ -0,0 +1,89 @@
+import path from 'node:path';
+
+import { setItemTargetName } from './file-scanner.js';
+import type { ImportReference } from './import-updater.js';
+import { createRenameMap, getRenamedPath } from './rename-map.js';
+import type { FileSystemItem } from '../types/index.js';
+
+export interface ReviewRow {
+  /** Index of the item in the scanned items */
+  index: number;
+  /** Number of listed parent directories */
+  depth: number;
+  /** Absolute path of the item before any renames */
+  originalPath: string;
+}
+
+/**
+ * Get the rows of the review tree: every item that is planned to be renamed, along with
+ * the directories containing it. The items must be in scan order.
+ */
+export function getReviewRows(items: FileSystemItem[]): ReviewRow[] {
+  const rows: (ReviewRow & { parentIndex?: number })[] = [];
+  const parents: number[] = [];
+
+  for (const [index, item] of items.entries()) {
+    // Items inside a directory build their paths on the directory's new path
+    let parentIndex = parents.at(-1);
+    while (parentIndex !== undefined && !item.originalPath.startsWith(items[parentIndex].newPath + path.sep)) {
+      parents.pop();
+      parentIndex = parents.at(-1);
+    }
+
+    rows.push({
+      index,
+      depth: parents.length,
+      originalPath:
+        parentIndex === undefined
+          ? path.resolve(item.originalPath)
+          : path.join(rows[parentIndex].originalPath, path.basename(item.originalPath)),
+      parentIndex,
+    });
+
+    if (item.isDirectory) {
+      parents.push(index);
+    }
+  }
+
+  const listedIndexes = new Set<number>();
+  for (const row of rows) {
+    if (!items[row.index].needsRename) {
+      continue;
+    }
+
+    for (let index = row.index as number | undefined; index !== undefined && !listedIndexes.has(index); ) {
+      listedIndexes.add(index);
+      index = rows[index].parentIndex;
+    }
+  }
+
+  return rows
+    .filter((row) => listedIndexes.has(row.index))
+    .map(({ index, depth, originalPath }) => ({ index, depth, originalPath }));
+}
+
+/**
+ * Switch an item between its planned name and its current name
+ */
+export function toggleReviewItem(items: FileSystemItem[], index: number, plannedName: string): FileSystemItem[] {
+  const item = items[index];
+  return setItemTargetName(items, item, item.needsRename ? path.basename(item.originalPath) : plannedName);
+}
+
+/**
+ * Count the imports of a file or directory, including imports of anything inside a directory
+ */
+export function countImportsOf(references: ImportReference[], originalPath: string): number {
+  return references.filter(
+    (reference) => reference.targetPath === originalPath || reference.targetPath.startsWith(originalPath + path.sep)
+  ).length;
+}
+
+/**
+ * Count the imports whose target is moved by the renames of the given items
+ */
+export function countAffectedImports(items: FileSystemItem[], references: ImportReference[]): number {
+  const renameMap = createRenameMap(items.filter((item) => item.needsRename));
+  return references.filter((reference) => getRenamedPath(renameMap, reference.targetPath) !== reference.targetPath)
+    .length;
+}
@@ -0,0 +1,74 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+
+import { executeMoveOperations } from './git.js';
+import { type Journal, createJournal, recordFileChange, recordMove } from './journal.js';
+import { RollbackError, runTransaction } from './transaction.js';
+import {
+  type WriteFile,
+  createTemporaryDirectory,
+  removeTemporaryDirectory,
+} from '../__fixtures__/temporary-directory.js';
+
+let root: string;
+let writeFile: WriteFile;
+let journal: Journal;
+
+function move(from: string, to: string): void {
+  executeMoveOperations([{ from: path.join(root, from), to: path.join(root, to) }], false, {
+    onMove: (operation) => recordMove(journal, operation),
+  });
+}
+
+beforeEach(() => {
+  ({ root, writeFile } = createTemporaryDirectory());
+  writeFile('UserCard.ts', 'export {};');
+  writeFile('UserList.ts', 'export {};');
+  writeFile('index.ts', "import './UserCard';");
+  journal = createJournal([root], false);
+});
+
+afterEach(() => {
+  removeTemporaryDirectory(root);
+});
+
+describe('runTransaction', () => {
+  test('returns the result of a run that succeeds', async () => {
+    await expect(runTransaction(journal, () => move('UserCard.ts', 'user-card.ts'))).resolves.toBeUndefined();
+
+    expect(fs.readdirSync(root).sort()).toEqual(['UserList.ts', 'index.ts', 'user-card.ts']);
+  });
+
+  test('reverses earlier moves and restores rewritten files when a move fails partway', async () => {
+    const run = runTransaction(journal, () => {
+      move('UserCard.ts', 'user-card.ts');
+
+      const update = {
+        originalFilePath: path.join(root, 'index.ts'),
+        filePath: path.join(root, 'index.ts'),
+        originalContent: "import './UserCard';",
+        updatedContent: "import './user-card';",
+      };
+      recordFileChange(journal, update);
+      fs.writeFileSync(update.filePath, update.updatedContent, 'utf8');
+
+      move('UserList.ts', 'user-list.ts');
+      move('Missing.ts', 'missing.ts');
+    });
+
+    const error = await run.catch((runError: unknown) => runError);
+
+    expect(error).toBeInstanceOf(RollbackError);
+    const { rollback, message } = error as RollbackError;
+    expect(message).toContain('Rolled back 2 moves and restored 1 files.');
+    expect(rollback.restoredFiles).toEqual([path.join(root, 'index.ts')]);
+    expect(rollback.revertedMoves).toEqual([
+      { from: path.join(root, 'user-list.ts'), to: path.join(root, 'UserList.ts') },
+      { from: path.join(root, 'user-card.ts'), to: path.join(root, 'UserCard.ts') },
+    ]);
+    expect(rollback.failures).toEqual([]);
+    expect(fs.readdirSync(root).sort()).toEqual(['UserCard.ts', 'UserList.ts', 'index.ts']);
+    expect(fs.readFileSync(path.join(root, 'index.ts'), 'utf8')).toBe("import './UserCard';");
+  });
+});
@@ -0,0 +1,37 @@
+import type { Journal } from './journal.js';
+import { type UndoResult, revertJournal } from './undo.js';
+
+/**
+ * Thrown when a transaction failed and the steps it had already completed were rolled back
+ */
+export class RollbackError extends Error {
+  readonly rollback: UndoResult;
+
+  constructor(cause: unknown, rollback: UndoResult) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    const summary = `Rolled back ${rollback.revertedMoves.length} moves and restored ${rollback.restoredFiles.length} files.`;
+    const failures =
+      rollback.failures.length > 0
+        ? `\nThe following steps could not be rolled back:\n${rollback.failures
+            .map((failure) => `  - ${failure}`)
+            .join('\n')}`
+        : '';
+
+    super(`${reason}\n\n${summary}${failures}`, { cause });
+    this.name = 'RollbackError';
+    this.rollback = rollback;
+  }
+}
+
+/**
+ * Run the steps of a transaction, which must record everything they do in the journal.
+ * If any step throws, every recorded step is reverted and a `RollbackError` describing
+ * what was rolled back is thrown.
+ */
+export async function runTransaction<T>(journal: Journal, run: () => T | Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    throw new RollbackError(error, revertJournal(journal));
+  }
+}
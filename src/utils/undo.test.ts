@@ -0,0 +1,66 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+
+import { type Journal, createJournal, recordFileChange, recordMove } from './journal.js';
+import { undoJournal } from './undo.js';
+import { createTemporaryDirectory, removeTemporaryDirectory } from '../__fixtures__/temporary-directory.js';
+
+let root: string;
+let journal: Journal;
+
+beforeEach(() => {
+  root = createTemporaryDirectory().root;
+
+  // Simulate a run that renamed UserCard.ts and rewrote the import in index.ts
+  fs.writeFileSync(path.join(root, 'user-card.ts'), 'export {};');
+  fs.writeFileSync(path.join(root, 'index.ts'), "import './user-card';");
+
+  journal = createJournal([root], false);
+  recordMove(journal, { from: path.join(root, 'UserCard.ts'), to: path.join(root, 'user-card.ts') });
+  recordFileChange(journal, {
+    originalFilePath: path.join(root, 'index.ts'),
+    filePath: path.join(root, 'index.ts'),
+    originalContent: "import './UserCard';",
+    updatedContent: "import './user-card';",
+  });
+});
+
+afterEach(() => {
+  removeTemporaryDirectory(root);
+});
+
+describe('undoJournal', () => {
+  test('restores file contents and reverses moves', () => {
+    const result = undoJournal(journal, { force: false });
+
+    expect(fs.readdirSync(root).sort()).toEqual(['UserCard.ts', 'index.ts']);
+    expect(fs.readFileSync(path.join(root, 'index.ts'), 'utf8')).toBe("import './UserCard';");
+    expect(result.revertedMoves).toHaveLength(1);
+    expect(result.restoredFiles).toEqual([path.join(root, 'index.ts')]);
+    expect(journal.undoneAt).toBeDefined();
+  });
+
+  test('refuses to undo when files changed since the run', () => {
+    fs.writeFileSync(path.join(root, 'index.ts'), "import './user-card';\n// edited");
+
+    expect(() => undoJournal(journal, { force: false })).toThrow('File was modified since the run');
+    expect(fs.existsSync(path.join(root, 'user-card.ts'))).toBe(true);
+  });
+
+  test('undoes anyway and reports warnings when forced', () => {
+    fs.rmSync(path.join(root, 'user-card.ts'));
+
+    const result = undoJournal(journal, { force: true });
+
+    expect(result.warnings).toEqual([`Renamed path no longer exists: ${path.join(root, 'user-card.ts')}`]);
+    expect(result.revertedMoves).toEqual([]);
+    expect(result.restoredFiles).toEqual([path.join(root, 'index.ts')]);
+  });
+
+  test('refuses to undo a journal twice', () => {
+    undoJournal(journal, { force: false });
+
+    expect(() => undoJournal(journal, { force: true })).toThrow('already undone');
+  });
+});
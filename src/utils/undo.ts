@@ -0,0 +1,118 @@
+import fs from 'node:fs';
+
+import { executeMoveOperations } from './git.js';
+import { type Journal, hashContent } from './journal.js';
+import type { MoveOperation } from '../types/index.js';
+
+export interface UndoOptions {
+  /** Revert even if files were changed or moved since the run */
+  force: boolean;
+}
+
+export interface UndoResult {
+  restoredFiles: string[];
+  revertedMoves: MoveOperation[];
+  warnings: string[];
+  /** Steps that could not be reverted */
+  failures: string[];
+}
+
+/**
+ * Find everything that changed since the journal was written and would make reverting
+ * it unsafe
+ */
+export function findJournalConflicts(journal: Journal): string[] {
+  const conflicts: string[] = [];
+
+  for (const file of journal.files) {
+    if (!fs.existsSync(file.path)) {
+      conflicts.push(`File no longer exists: ${file.path}`);
+    } else if (hashContent(fs.readFileSync(file.path, 'utf8')) !== file.afterHash) {
+      conflicts.push(`File was modified since the run: ${file.path}`);
+    }
+  }
+
+  // Temporary paths of case-only renames only exist between their two moves
+  const temporaryPaths = new Set(journal.moves.map((move) => move.from));
+  for (const move of journal.moves) {
+    if (temporaryPaths.has(move.to)) {
+      continue;
+    }
+
+    if (!fs.existsSync(move.to)) {
+      conflicts.push(`Renamed path no longer exists: ${move.to}`);
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Revert everything recorded in a journal: restore the rewritten files, then reverse every
+ * move in reverse order. This is best effort, a step that fails is reported in `failures`
+ * and the remaining steps are still attempted.
+ */
+export function revertJournal(journal: Journal): UndoResult {
+  const result: UndoResult = { restoredFiles: [], revertedMoves: [], warnings: [], failures: [] };
+
+  // Restore file contents first, while the files are still at their new paths
+  for (const file of journal.files) {
+    if (!fs.existsSync(file.path)) {
+      continue;
+    }
+
+    try {
+      fs.writeFileSync(file.path, file.beforeContent, 'utf8');
+      result.restoredFiles.push(file.path);
+    } catch (error) {
+      result.failures.push(`Failed to restore ${file.path}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  // Reverse the moves in the opposite order they were made in
+  for (let index = journal.moves.length - 1; index >= 0; index--) {
+    const move = { from: journal.moves[index].to, to: journal.moves[index].from };
+    if (!fs.existsSync(move.from)) {
+      continue;
+    }
+
+    try {
+      executeMoveOperations([move], journal.useGit, {
+        workingDirectory: journal.cwd,
+        onMove: (operation) => result.revertedMoves.push(operation),
+      });
+    } catch (error) {
+      result.failures.push(
+        `Failed to move ${move.from} back to ${move.to}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  journal.undoneAt = new Date().toISOString();
+
+  return result;
+}
+
+/**
+ * Undo a previous run recorded in a journal. Refuses to run if anything changed since,
+ * unless forced, in which case the affected entries are skipped or overwritten and
+ * reported as warnings.
+ */
+export function undoJournal(journal: Journal, options: UndoOptions): UndoResult {
+  if (journal.undoneAt) {
+    throw new Error(`This run was already undone at ${journal.undoneAt}`);
+  }
+
+  const conflicts = findJournalConflicts(journal);
+  if (conflicts.length > 0 && !options.force) {
+    throw new Error(
+      `Files changed since the run, refusing to undo:\n${conflicts.map((conflict) => `  - ${conflict}`).join('\n')}` +
+        '\nUse --force to undo anyway.'
+    );
+  }
+
+  const result = revertJournal(journal);
+  result.warnings.push(...conflicts);
+
+  return result;
+}
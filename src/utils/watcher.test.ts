@@ -0,0 +1,120 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { createPathFilter } from './path-filter.js';
+import { createBatcher, watchDirectories } from './watcher.js';
+import {
+  type WriteFile,
+  createTemporaryDirectory,
+  removeTemporaryDirectory,
+} from '../__fixtures__/temporary-directory.js';
+
+let root: string;
+let writeFile: WriteFile;
+
+/**
+ * Watch the test directory, resolving with the first batch that comes after `change`
+ */
+async function watchForBatch(change: () => void): Promise<string[]> {
+  let stopWatching: (() => void) | undefined;
+  const batch = new Promise<string[]>((resolve) => {
+    watchDirectories([root], {
+      pathFilter: createPathFilter({ rootDirectory: root }),
+      debounceDelay: 50,
+      onBatch: resolve,
+    }).then((stop) => {
+      stopWatching = stop;
+      change();
+    });
+  });
+
+  try {
+    return await batch;
+  } finally {
+    stopWatching?.();
+  }
+}
+
+describe('createBatcher', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('hands on a burst of paths as one batch once it settles', () => {
+    const batches: string[][] = [];
+    const batcher = createBatcher(100, (paths) => batches.push(paths));
+
+    batcher.add('src/UserCard.tsx');
+    vi.advanceTimersByTime(60);
+    batcher.add('src/UserList.tsx');
+    batcher.add('src/UserCard.tsx');
+    vi.advanceTimersByTime(60);
+
+    expect(batches).toEqual([]);
+
+    vi.advanceTimersByTime(40);
+    batcher.add('src/NewThing.tsx');
+    vi.advanceTimersByTime(100);
+
+    expect(batches).toEqual([['src/UserCard.tsx', 'src/UserList.tsx'], ['src/NewThing.tsx']]);
+  });
+
+  test('drops the pending batch when cancelled', () => {
+    const batches: string[][] = [];
+    const batcher = createBatcher(100, (paths) => batches.push(paths));
+
+    batcher.add('src/UserCard.tsx');
+    batcher.cancel();
+    vi.advanceTimersByTime(200);
+
+    expect(batches).toEqual([]);
+  });
+});
+
+describe('watchDirectories', () => {
+  beforeEach(() => {
+    ({ root, writeFile } = createTemporaryDirectory());
+    writeFile('components/UserCard.tsx', 'export default 1;');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    removeTemporaryDirectory(root);
+  });
+
+  test('leaves out existing files saved through a temporary file', async () => {
+    const batch = await watchForBatch(() => {
+      writeFile('components/UserCard.tsx.tmp', 'export default 2;');
+      fs.renameSync(path.join(root, 'components/UserCard.tsx.tmp'), path.join(root, 'components/UserCard.tsx'));
+      writeFile('components/NewThing.tsx');
+    });
+
+    expect(batch).toEqual([path.join(root, 'components/NewThing.tsx')]);
+  });
+
+  test('watches every directory where recursive watching is not supported', async () => {
+    const watch = fs.watch;
+    vi.spyOn(fs, 'watch').mockImplementation(((
+      directory: string,
+      options: fs.WatchOptions,
+      listener: fs.WatchListener<string>
+    ) => {
+      if (options.recursive) {
+        throw Object.assign(new Error('The feature watch recursively is unavailable on the current platform'), {
+          code: 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM',
+        });
+      }
+
+      return watch(directory, options, listener);
+    }) as typeof fs.watch);
+
+    const batch = await watchForBatch(() => writeFile('components/NewThing.tsx'));
+
+    expect(batch).toEqual([path.join(root, 'components/NewThing.tsx')]);
+  });
+});
@@ -0,0 +1,204 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { type FileIndex, createFileIndex, listIndexedDirectories } from './file-list.js';
+import type { PathFilter } from './path-filter.js';
+
+/**
+ * Milliseconds without new events after which a burst of events is handled as one batch
+ */
+export const DEFAULT_DEBOUNCE_DELAY = 300;
+
+export interface WatchOptions {
+  /** Decides which paths are ignored */
+  pathFilter: PathFilter;
+  /** Milliseconds to wait for further events before a batch is handled */
+  debounceDelay?: number;
+  /** Called with the absolute paths of the files and directories that appeared in a burst */
+  onBatch: (paths: string[]) => void;
+}
+
+export interface Batcher {
+  add: (itemPath: string) => void;
+  /** Drop the pending batch */
+  cancel: () => void;
+}
+
+/**
+ * Collect paths into batches, handing a batch on once no path was added for `delay`
+ * milliseconds, so bursts such as a branch checkout are handled at once
+ */
+export function createBatcher(delay: number, onBatch: (paths: string[]) => void): Batcher {
+  const pending = new Set<string>();
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+
+  return {
+    add: (itemPath) => {
+      pending.add(itemPath);
+      clearTimeout(timeout);
+      timeout = setTimeout(() => {
+        const paths = [...pending];
+        pending.clear();
+        onBatch(paths);
+      }, delay);
+    },
+    cancel: () => {
+      clearTimeout(timeout);
+      pending.clear();
+    },
+  };
+}
+
+/**
+ * Check whether a path or any of its parents below the watched directory is excluded, as
+ * the scanner never looks inside excluded directories
+ */
+function isExcludedPath(
+  itemPath: string,
+  isDirectory: boolean,
+  rootDirectory: string,
+  pathFilter: PathFilter
+): boolean {
+  for (
+    let current = itemPath, currentIsDirectory = isDirectory;
+    current.startsWith(rootDirectory + path.sep);
+    current = path.dirname(current), currentIsDirectory = true
+  ) {
+    if (pathFilter.isExcluded(current, currentIsDirectory)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Collect the absolute paths of every indexed file and directory, skipped ones included
+ */
+function getIndexedPaths(index: FileIndex): Set<string> {
+  const indexedPaths = new Set<string>();
+  for (const [directory, entries] of index.entries) {
+    for (const entry of entries) {
+      indexedPaths.add(path.join(directory, entry.name));
+    }
+  }
+
+  return indexedPaths;
+}
+
+function isUnsupportedPlatformError(error: unknown): boolean {
+  return error instanceof Error && 'code' in error && error.code === 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM';
+}
+
+/**
+ * Watch directories recursively for files and directories that are created or renamed.
+ * Paths that already existed when watching started, that no longer exist or that the path
+ * filter excludes are left out of the batches, so saving an existing file through a
+ * temporary file and a rename is not taken for a new file. Where recursive watching is
+ * not supported (Linux before Node 20), every directory is watched on its own. Resolves
+ * to a function that stops watching.
+ */
+export async function watchDirectories(directories: string[], options: WatchOptions): Promise<() => void> {
+  const { pathFilter, debounceDelay = DEFAULT_DEBOUNCE_DELAY, onBatch } = options;
+
+  const rootDirectories = directories.map((directory) => path.resolve(directory));
+  const index = createFileIndex({ pathFilter });
+  const indexedDirectories = await Promise.all(
+    rootDirectories.map((rootDirectory) => listIndexedDirectories(index, rootDirectory))
+  );
+  const existingPaths = getIndexedPaths(index);
+
+  const batcher = createBatcher(debounceDelay, (paths) => {
+    const appearedPaths = paths.filter((itemPath) => {
+      const stats = fs.statSync(itemPath, { throwIfNoEntry: false });
+      const rootDirectory = rootDirectories.find((directory) => itemPath.startsWith(directory + path.sep));
+      return (
+        stats &&
+        rootDirectory &&
+        !existingPaths.has(itemPath) &&
+        !isExcludedPath(itemPath, stats.isDirectory(), rootDirectory, pathFilter)
+      );
+    });
+
+    if (appearedPaths.length > 0) {
+      onBatch(appearedPaths);
+    }
+  });
+
+  const watchers = new Map<string, fs.FSWatcher>();
+  let isStopped = false;
+  let watchesEachDirectory = false;
+
+  // Content changes are reported as `change`, creations, deletions and renames as `rename`
+  const watchDirectory = (directory: string, recursive: boolean) => {
+    if (isStopped || watchers.has(directory)) {
+      return;
+    }
+
+    const watcher = fs.watch(directory, { recursive }, (eventType, fileName) => {
+      if (eventType === 'rename' && fileName) {
+        const itemPath = path.join(directory, fileName.toString());
+        batcher.add(itemPath);
+        if (watchesEachDirectory) {
+          watchNewDirectory(itemPath);
+        }
+      }
+    });
+
+    // Raised when the directory is deleted
+    watcher.on('error', () => {
+      watcher.close();
+      watchers.delete(directory);
+    });
+    watchers.set(directory, watcher);
+  };
+
+  // Directories that appear while watching each directory are watched along with the
+  // directories inside them
+  const watchNewDirectory = (itemPath: string) => {
+    const stats = fs.statSync(itemPath, { throwIfNoEntry: false });
+    if (!stats?.isDirectory() || watchers.has(itemPath) || pathFilter.isExcluded(itemPath, true)) {
+      return;
+    }
+
+    listIndexedDirectories(createFileIndex({ pathFilter }), itemPath)
+      .then((newDirectories) => {
+        for (const directory of newDirectories) {
+          watchDirectory(directory, false);
+        }
+      })
+      // The directory was removed again before it could be watched
+      .catch(() => {});
+  };
+
+  const stopWatching = () => {
+    isStopped = true;
+    batcher.cancel();
+    for (const watcher of watchers.values()) {
+      watcher.close();
+    }
+    watchers.clear();
+  };
+
+  try {
+    try {
+      for (const rootDirectory of rootDirectories) {
+        watchDirectory(rootDirectory, true);
+      }
+    } catch (error) {
+      if (!isUnsupportedPlatformError(error)) {
+        throw error;
+      }
+
+      watchesEachDirectory = true;
+      for (const directory of indexedDirectories.flat()) {
+        watchDirectory(directory, false);
+      }
+    }
+  } catch (error) {
+    stopWatching();
+    throw error;
+  }
+
+  return stopWatching;
+}
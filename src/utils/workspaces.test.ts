@@ -0,0 +1,111 @@
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+
+import { createFileIndex } from './file-list.js';
+import { createPathFilter } from './path-filter.js';
+import { createWorkspaceAliases, findWorkspace, parsePnpmWorkspacePackages } from './workspaces.js';
+import {
+  type WriteFile,
+  createTemporaryDirectory,
+  removeTemporaryDirectory,
+} from '../__fixtures__/temporary-directory.js';
+
+let root: string;
+let writeFile: WriteFile;
+
+beforeEach(() => {
+  ({ root, writeFile } = createTemporaryDirectory());
+});
+
+afterEach(() => {
+  removeTemporaryDirectory(root);
+});
+
+describe('parsePnpmWorkspacePackages', () => {
+  test('reads block and flow sequences', () => {
+    const content = [
+      'packages:',
+      "  - 'packages/*'",
+      '  - "apps/*" # apps',
+      "  - '!**/test/**'",
+      'catalog:',
+      '  react: ^18',
+    ];
+
+    expect(parsePnpmWorkspacePackages(content.join('\n'))).toEqual(['packages/*', 'apps/*', '!**/test/**']);
+    expect(parsePnpmWorkspacePackages("packages: ['packages/*', tools]")).toEqual(['packages/*', 'tools']);
+  });
+});
+
+describe('findWorkspace', () => {
+  test('finds the packages of the closest workspace', async () => {
+    writeFile('package.json', JSON.stringify({ private: true, workspaces: ['packages/*'] }));
+    writeFile('packages/ui/package.json', JSON.stringify({ name: '@acme/ui' }));
+    writeFile('packages/web/package.json', JSON.stringify({ name: '@acme/web' }));
+    writeFile('packages/notes/readme.md');
+
+    const workspace = await findWorkspace(path.join(root, 'packages', 'ui'));
+
+    expect(workspace?.rootDirectory).toBe(root);
+    expect(workspace?.packages.map((workspacePackage) => workspacePackage.name).sort()).toEqual([
+      '@acme/ui',
+      '@acme/web',
+    ]);
+  });
+
+  test('reads pnpm-workspace.yaml', async () => {
+    writeFile('pnpm-workspace.yaml', "packages:\n  - 'libs/**'\n  - '!libs/legacy'\n");
+    writeFile('libs/core/package.json', JSON.stringify({ name: 'core' }));
+    writeFile('libs/legacy/package.json', JSON.stringify({ name: 'legacy' }));
+
+    const workspace = await findWorkspace(root);
+
+    expect(workspace?.packages.map((workspacePackage) => workspacePackage.name)).toEqual(['core']);
+  });
+
+  test('skips excluded directories and walks each workspace once per file index', async () => {
+    writeFile('package.json', JSON.stringify({ private: true, workspaces: ['packages/*', 'tools/**'] }));
+    writeFile('packages/ui/package.json', JSON.stringify({ name: '@acme/ui' }));
+    writeFile('packages/ui/node_modules/left-pad/package.json', JSON.stringify({ name: 'left-pad' }));
+    writeFile('tools/dist/package.json', JSON.stringify({ name: 'tools-dist' }));
+    writeFile('tools/generated/package.json', JSON.stringify({ name: 'generated' }));
+    writeFile('docs/guide/readme.md');
+    const fileIndex = createFileIndex({
+      pathFilter: createPathFilter({ rootDirectory: root, exclude: ['tools/generated'] }),
+    });
+
+    const workspace = await findWorkspace(path.join(root, 'packages', 'ui'), fileIndex);
+
+    expect(workspace?.packages.map((workspacePackage) => workspacePackage.name)).toEqual(['@acme/ui']);
+    expect(fileIndex.entries.has(path.join(root, 'docs'))).toBe(false);
+    await expect(findWorkspace(path.join(root, 'tools'), fileIndex)).resolves.toBe(workspace);
+  });
+});
+
+describe('createWorkspaceAliases', () => {
+  test('maps package names to their directories or exported subpaths', () => {
+    const aliases = createWorkspaceAliases({
+      rootDirectory: root,
+      packages: [
+        { name: 'plain', directory: path.join(root, 'plain') },
+        {
+          name: '@acme/ui',
+          directory: path.join(root, 'ui'),
+          exports: {
+            '.': { types: './dist/index.d.ts', import: './src/index.ts' },
+            './components/*': './src/components/*.tsx',
+          },
+        },
+      ],
+    });
+
+    expect(
+      aliases.map(({ pattern, targets }) => [pattern, targets.map((target) => path.relative(root, target))])
+    ).toEqual([
+      ['plain', ['plain']],
+      ['plain/*', [path.join('plain', '*')]],
+      ['@acme/ui', [path.join('ui', 'src', 'index.ts'), path.join('ui', 'dist', 'index.d.ts')]],
+      ['@acme/ui/components/*', [path.join('ui', 'src', 'components', '*.tsx')]],
+    ]);
+  });
+});
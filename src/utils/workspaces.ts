@@ -0,0 +1,264 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import picomatch from 'picomatch';
+
+import { type FileIndex, createFileIndex, getIndexedEntries, listIndexedDirectories } from './file-list.js';
+import { mapWithConcurrency } from './helpers.js';
+import type { PathAlias } from './path-aliases.js';
+
+export interface WorkspacePackage {
+  /** Name of the package, as other packages import it */
+  name: string;
+  /** Absolute path of the package directory */
+  directory: string;
+  /** Parsed `exports` field of the package.json, if any */
+  exports?: unknown;
+}
+
+export interface Workspace {
+  /** Absolute path of the directory declaring the workspace */
+  rootDirectory: string;
+  packages: WorkspacePackage[];
+}
+
+/**
+ * Conditions of `exports` entries tried in order, the source-like ones first
+ */
+const EXPORT_CONDITIONS = ['source', 'development', 'import', 'module', 'require', 'node', 'default', 'types'];
+
+/**
+ * Workspaces found through each file index, by root directory, so a run walks every
+ * workspace once however many directories it processes
+ */
+const workspaceCache = new WeakMap<FileIndex, Map<string, Promise<Workspace>>>();
+
+function parseJsonObject(content: string): Record<string, unknown> | undefined {
+  try {
+    const value: unknown = JSON.parse(content);
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function readJsonFile(filePath: string): Record<string, unknown> | undefined {
+  try {
+    return parseJsonObject(fs.readFileSync(filePath, 'utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Strip the `./` and trailing slash workspace patterns may be written with
+ */
+function normalizePattern(pattern: string): string {
+  return pattern.replace(/^\.\//, '').replace(/\/$/, '');
+}
+
+function unquote(value: string): string {
+  return value.replace(/^(["'])(.*)\1$/, '$2');
+}
+
+/**
+ * Read the `packages` list of a pnpm-workspace.yaml. Only the block and flow sequences
+ * pnpm documents are understood, which is all this file holds in practice.
+ */
+export function parsePnpmWorkspacePackages(content: string): string[] {
+  const lines = content.split(/\r?\n/).map((line) => line.replace(/\s+#.*$/, ''));
+  const packagesIndex = lines.findIndex((line) => /^packages\s*:/.test(line));
+  if (packagesIndex === -1) {
+    return [];
+  }
+
+  const inlineValue = lines[packagesIndex].replace(/^packages\s*:\s*/, '').trim();
+  if (inlineValue.startsWith('[')) {
+    return inlineValue
+      .replaceAll(/^\[|\]$/g, '')
+      .split(',')
+      .map((entry) => unquote(entry.trim()))
+      .filter((entry) => entry !== '');
+  }
+
+  const patterns: string[] = [];
+  for (const line of lines.slice(packagesIndex + 1)) {
+    const entry = /^\s*-\s*(.+?)\s*$/.exec(line);
+    if (entry) {
+      patterns.push(unquote(entry[1]));
+    } else if (line.trim() !== '' && !/^\s/.test(line)) {
+      break;
+    }
+  }
+
+  return patterns;
+}
+
+/**
+ * Get the workspace patterns declared in a directory, by pnpm-workspace.yaml or the
+ * `workspaces` field of package.json (npm, yarn and bun)
+ */
+function readWorkspacePatterns(directory: string): string[] | undefined {
+  const pnpmWorkspacePath = path.join(directory, 'pnpm-workspace.yaml');
+  if (fs.existsSync(pnpmWorkspacePath)) {
+    return parsePnpmWorkspacePackages(fs.readFileSync(pnpmWorkspacePath, 'utf8'));
+  }
+
+  const workspaces = readJsonFile(path.join(directory, 'package.json'))?.workspaces;
+  const patterns = Array.isArray(workspaces)
+    ? workspaces
+    : (workspaces as { packages?: unknown } | undefined)?.packages;
+
+  return Array.isArray(patterns) ? patterns.filter((pattern) => typeof pattern === 'string') : undefined;
+}
+
+/**
+ * Find the directories of the workspace matching the patterns, negated patterns excluding
+ * directories again. Only the directories the patterns start with are walked, such as
+ * `packages` for `packages/*`, through the file index so ignored and excluded
+ * directories are never entered.
+ */
+async function findPackageDirectories(
+  rootDirectory: string,
+  patterns: string[],
+  fileIndex: FileIndex
+): Promise<string[]> {
+  const includedPatterns = patterns
+    .filter((pattern) => !pattern.startsWith('!'))
+    .map((pattern) => normalizePattern(pattern));
+  const isIncluded = picomatch(includedPatterns);
+  const isExcluded = picomatch(
+    patterns.filter((pattern) => pattern.startsWith('!')).map((pattern) => normalizePattern(pattern.slice(1)))
+  );
+  const baseDirectories = new Set(
+    includedPatterns.map((pattern) => path.join(rootDirectory, picomatch.scan(pattern).base))
+  );
+  const directories = new Set<string>();
+
+  for (const baseDirectory of baseDirectories) {
+    const stats = await fs.promises.stat(baseDirectory).catch(() => {});
+    if (!stats?.isDirectory()) {
+      continue;
+    }
+
+    for (const directory of await listIndexedDirectories(fileIndex, baseDirectory)) {
+      const relativePath = path.relative(rootDirectory, directory).split(path.sep).join('/');
+      const hasPackageJson = getIndexedEntries(fileIndex, directory).some(
+        (entry) => entry.name === 'package.json' && !entry.isDirectory
+      );
+
+      if (relativePath !== '' && isIncluded(relativePath) && !isExcluded(relativePath) && hasPackageJson) {
+        directories.add(directory);
+      }
+    }
+  }
+
+  return [...directories];
+}
+
+async function loadWorkspace(rootDirectory: string, patterns: string[], fileIndex: FileIndex): Promise<Workspace> {
+  const packageDirectories = await findPackageDirectories(rootDirectory, patterns, fileIndex);
+  const packages = await mapWithConcurrency(packageDirectories, fileIndex.concurrency, async (packageDirectory) => {
+    const content = await fs.promises.readFile(path.join(packageDirectory, 'package.json'), 'utf8');
+    const packageJson = parseJsonObject(content);
+    return typeof packageJson?.name === 'string'
+      ? [{ name: packageJson.name, directory: packageDirectory, exports: packageJson.exports }]
+      : [];
+  });
+
+  return { rootDirectory, packages: packages.flat() };
+}
+
+/**
+ * Find the workspace a directory belongs to, looking for the closest pnpm-workspace.yaml
+ * or package.json with `workspaces` above it. Returns `undefined` outside a workspace.
+ * Workspaces are cached per file index.
+ */
+export async function findWorkspace(
+  directory: string,
+  fileIndex: FileIndex = createFileIndex()
+): Promise<Workspace | undefined> {
+  for (let current = path.resolve(directory); ; current = path.dirname(current)) {
+    const patterns = readWorkspacePatterns(current);
+    if (patterns) {
+      let workspaces = workspaceCache.get(fileIndex);
+      if (!workspaces) {
+        workspaces = new Map();
+        workspaceCache.set(fileIndex, workspaces);
+      }
+
+      let workspace = workspaces.get(current);
+      if (!workspace) {
+        workspace = loadWorkspace(current, patterns, fileIndex);
+        workspaces.set(current, workspace);
+      }
+
+      return workspace;
+    }
+
+    if (path.dirname(current) === current) {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Get the file paths an `exports` target points at, trying the conditions in order
+ */
+function getExportTargets(target: unknown): string[] {
+  if (typeof target === 'string') {
+    return [target];
+  }
+
+  if (Array.isArray(target)) {
+    return target.flatMap((entry) => getExportTargets(entry));
+  }
+
+  if (typeof target !== 'object' || target === null) {
+    return [];
+  }
+
+  const conditions = target as Record<string, unknown>;
+  const orderedConditions = [
+    ...EXPORT_CONDITIONS.filter((condition) => condition in conditions),
+    ...Object.keys(conditions).filter((condition) => !EXPORT_CONDITIONS.includes(condition)),
+  ];
+
+  return [...new Set(orderedConditions.flatMap((condition) => getExportTargets(conditions[condition])))];
+}
+
+/**
+ * Map the subpaths of an `exports` field to their targets. A string, array or conditions
+ * object is the export of the package root.
+ */
+function getSubpathExports(exports: unknown): Record<string, unknown> {
+  const isSubpathMap =
+    typeof exports === 'object' &&
+    exports !== null &&
+    !Array.isArray(exports) &&
+    Object.keys(exports).some((key) => key.startsWith('.'));
+
+  return isSubpathMap ? (exports as Record<string, unknown>) : { '.': exports };
+}
+
+/**
+ * Create the aliases through which workspace packages import each other. Packages with
+ * `exports` expose their exported subpaths only, others their whole directory.
+ */
+export function createWorkspaceAliases(workspace: Workspace): PathAlias[] {
+  return workspace.packages.flatMap(({ name, directory, exports }) => {
+    if (exports === undefined) {
+      return [
+        { pattern: name, targets: [directory], isPackage: true },
+        { pattern: `${name}/*`, targets: [path.join(directory, '*')], isPackage: true },
+      ];
+    }
+
+    return Object.entries(getSubpathExports(exports)).map(([subpath, target]) => ({
+      pattern: subpath === '.' ? name : `${name}/${subpath.replace(/^\.\//, '')}`,
+      targets: getExportTargets(target).map((exportTarget) => path.join(directory, exportTarget)),
+      isPackage: true,
+    }));
+  });
+}